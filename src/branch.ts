@@ -0,0 +1,104 @@
+import { flatten, StepValue } from './pipe';
+
+/**
+ * A plain predicate, or a type guard that narrows the input of the step it guards.
+ */
+type Predicate<A, S extends A> = ((input: A) => input is S) | ((input: A) => boolean);
+
+/**
+ * What is left of `A` when a type guard does not match; all of `A` for plain predicates.
+ */
+type Rest<A, S> = [Exclude<A, S>] extends [never] ? A : Exclude<A, S>;
+
+/**
+ * Creates a step that runs `step` when the predicate holds and passes the input through otherwise.
+ * Like every pipe step, a Safe or SafeResult returned by `step` is flattened.
+ *
+ * @param predicate - Decides whether `step` runs; a type guard narrows its input
+ * @param step - The step to run
+ * @returns A step for `safe.pipe` or `map`
+ *
+ * @example
+ * safe.pipe(
+ *   (order: Order) => order,
+ *   when(order => order.total > 100, applyDiscount),
+ *   order => order.total
+ * );
+ */
+export function when<A, B, S extends A = A>(
+  predicate: Predicate<A, S>,
+  step: (input: S) => B
+): (input: A) => Rest<A, S> | StepValue<B> {
+  return (input) => (predicate(input) ? flatten(step(input as S)) : input) as Rest<A, S> | StepValue<B>;
+}
+
+/**
+ * Creates a step that runs `step` unless the predicate holds, passing the input through when it does.
+ *
+ * @param predicate - Decides whether `step` is skipped; a type guard narrows the input of `step` to the rest
+ * @param step - The step to run
+ * @returns A step for `safe.pipe` or `map`
+ *
+ * @example
+ * safe(() => loadConfig()).map(unless((config) => config.validated, validateConfig));
+ */
+export function unless<A, B, S extends A = A>(
+  predicate: Predicate<A, S>,
+  step: (input: Rest<A, S>) => B
+): (input: A) => S | StepValue<B> {
+  return (input) => (predicate(input) ? input : flatten(step(input as Rest<A, S>))) as S | StepValue<B>;
+}
+
+/**
+ * Creates a step that runs `onTrue` or `onFalse` depending on the predicate.
+ *
+ * @param predicate - Picks the step to run; a type guard narrows the input of both
+ * @param onTrue - The step to run when the predicate holds
+ * @param onFalse - The step to run otherwise
+ * @returns A step for `safe.pipe` or `map`
+ *
+ * @example
+ * safe.pipe(
+ *   (id: string) => findUser(id),
+ *   branch((user): user is Admin => user.role === 'admin', loadAdminDashboard, loadDashboard)
+ * );
+ */
+export function branch<A, B, C, S extends A = A>(
+  predicate: Predicate<A, S>,
+  onTrue: (input: S) => B,
+  onFalse: (input: Rest<A, S>) => C
+): (input: A) => StepValue<B> | StepValue<C> {
+  return (input) =>
+    flatten(predicate(input) ? onTrue(input as S) : onFalse(input as Rest<A, S>)) as StepValue<B> | StepValue<C>;
+}
+
+/**
+ * Creates a step that routes a discriminated union by the value of `key`.
+ * Each case receives the input narrowed to its member, and every member must have a case.
+ *
+ * @param key - The discriminant property
+ * @param cases - A step for each value of the discriminant
+ * @returns A step for `safe.pipe` or `map`; it fails the chain if the input has a value without a case
+ *
+ * @example
+ * safe.pipe(
+ *   (event: string) => JSON.parse(event) as PaymentEvent,
+ *   switchOn('type', {
+ *     charge: (event) => recordCharge(event.amount),   // event: ChargeEvent
+ *     refund: (event) => recordRefund(event.chargeId), // event: RefundEvent
+ *   })
+ * );
+ */
+export function switchOn<
+  A extends Record<K, PropertyKey>,
+  K extends keyof A,
+  C extends { [V in A[K]]: (input: Extract<A, Record<K, V>>) => unknown },
+>(key: K, cases: C): (input: A) => { [V in keyof C]: StepValue<ReturnType<C[V]>> }[keyof C] {
+  return (input) => {
+    const value = input[key];
+    if (!Object.prototype.hasOwnProperty.call(cases, value)) {
+      throw new Error(`No case for ${String(key)} "${String(value)}"`);
+    }
+    return flatten((cases[value] as (input: A) => unknown)(input)) as any;
+  };
+}
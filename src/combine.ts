@@ -0,0 +1,248 @@
+import { safeExec, Safe } from './core';
+import { SafeAggregateError, TraverseError } from './errors';
+import { SafeResult, safeResult } from './result';
+import { isPromiseLike } from './shared';
+
+export type AnySafe = Safe<any, any>;
+
+/**
+ * Structural shape of a Safe used as the input constraint.
+ * It does not mention the failure type, so `safe(...)` calls written inline
+ * keep their own `E` instead of inferring it from the constraint.
+ */
+type SafeLike = { unwrap(): unknown; isOk: boolean | Promise<boolean> };
+
+/**
+ * A tuple/array or a record of Safes.
+ */
+type SafeInputs = readonly SafeLike[] | { readonly [key: string]: SafeLike };
+
+type SafeMembers<S> = S extends readonly any[] ? S[number] : S[keyof S];
+
+export type SafeErrorOf<S> = S extends AnySafe ? Parameters<Parameters<S['observeError']>[0]>[0] : never;
+
+export type SafeRawValueOf<S> = S extends AnySafe ? ReturnType<S['unwrap']> : never;
+
+type SafeValueOf<S> = Awaited<SafeRawValueOf<S>>;
+
+type HasAsyncSafe<S> = [Extract<SafeRawValueOf<SafeMembers<S>>, PromiseLike<any>>] extends [never] ? false : true;
+
+type SafeCombined<S, V, E extends Error> = HasAsyncSafe<S> extends true ? Safe<Promise<V>, E> : Safe<V, E>;
+
+type SafeValues<S> = { -readonly [K in keyof S]: SafeValueOf<S[K]> };
+
+type SafeResults<S> = { -readonly [K in keyof S]: SafeResult<SafeValueOf<S[K]>, SafeErrorOf<S[K]>> };
+
+const toList = (safes: SafeInputs): AnySafe[] =>
+  (Array.isArray(safes) ? [...safes] : Object.values(safes)) as AnySafe[];
+
+const rebuild = (safes: SafeInputs, values: unknown[]) => {
+  if (Array.isArray(safes)) return values;
+  return Object.fromEntries(Object.keys(safes).map((key, i) => [key, values[i]]));
+};
+
+/**
+ * Settles every Safe exactly once, so lazy Safes do not run twice.
+ */
+const settleAll = (list: AnySafe[]): (SafeResult<any, any> | Promise<SafeResult<any, any>>)[] =>
+  list.map((s) =>
+    s.match({
+      ok: (value) => safeResult.ok(value),
+      err: (error) => safeResult.fail(error),
+    })
+  );
+
+const unwrapResult = (result: SafeResult<any, any>) => {
+  if (result.isOk) return result.value;
+  throw result.error;
+};
+
+const messageOf = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+/**
+ * Combines Safes into a single Safe holding all of their values.
+ * Fails fast with the first error (in input order for sync chains, in time for async ones).
+ *
+ * @param safes - A tuple or record of Safes
+ * @returns A Safe of the tuple or record of values
+ *
+ * @example
+ * safe.all([safe(1), safe('a')]).unwrap()         // [1, 'a']
+ * safe.all({ user: loadUser(), org: loadOrg() })  // Safe<Promise<{ user: User; org: Org }>>
+ */
+export function safeAll<const S extends SafeInputs>(
+  safes: S
+): SafeCombined<S, SafeValues<S>, SafeErrorOf<SafeMembers<S>>> {
+  const results = settleAll(toList(safes));
+  if (!results.some(isPromiseLike))
+    return safeExec(() => rebuild(safes, (results as SafeResult<any, any>[]).map(unwrapResult))) as any;
+  return safeExec(() =>
+    Promise.all(results.map((result) => Promise.resolve(result).then(unwrapResult))).then((values) =>
+      rebuild(safes, values)
+    )
+  ) as any;
+}
+
+/**
+ * Combines Safes into a single Safe holding every `SafeResult`, whether ok or failed.
+ * The combined Safe never fails.
+ *
+ * @param safes - A tuple or record of Safes
+ * @returns A Safe of the tuple or record of results
+ *
+ * @example
+ * safe.allSettled([safe(1), safe(() => { throw new Error('x') })]).unwrap()
+ * // [{ isOk: true, value: 1 }, { isOk: false, error: Error('x') }]
+ */
+export function safeAllSettled<const S extends SafeInputs>(safes: S): SafeCombined<S, SafeResults<S>, never> {
+  const results = settleAll(toList(safes));
+  if (!results.some(isPromiseLike)) return safeExec(() => rebuild(safes, results)) as any;
+  return safeExec(() => Promise.all(results).then((settled) => rebuild(safes, settled))) as any;
+}
+
+/**
+ * Resolves to the first successful Safe.
+ * Fails with a {@link SafeAggregateError} holding every error if all Safes fail.
+ *
+ * @param safes - A tuple or record of Safes
+ * @returns A Safe of the first success value
+ *
+ * @example
+ * safe.any([fromCache(), fromNetwork()]).unwrap()
+ */
+export function safeAny<const S extends SafeInputs>(
+  safes: S
+): SafeCombined<S, SafeValueOf<SafeMembers<S>>, SafeAggregateError<SafeErrorOf<SafeMembers<S>>>> {
+  const results = settleAll(toList(safes));
+
+  if (!results.some(isPromiseLike))
+    return safeExec(() => {
+      const errors: unknown[] = [];
+      for (const result of results as SafeResult<any, any>[]) {
+        if (result.isOk) return result.value;
+        errors.push(result.error);
+      }
+      throw new SafeAggregateError(errors);
+    }) as any;
+
+  return safeExec(
+    () =>
+      new Promise((resolve, reject) => {
+        const errors: unknown[] = new Array(results.length);
+        let pending = results.length;
+        results.forEach((result, i) =>
+          Promise.resolve(result).then((settled) => {
+            if (settled.isOk) return resolve(settled.value);
+            errors[i] = settled.error;
+            if (--pending === 0) reject(new SafeAggregateError(errors));
+          })
+        );
+      })
+  ) as any;
+}
+
+/**
+ * Settles with the first Safe to settle, whether it succeeded or failed.
+ * Sync Safes are already settled, so they win over async ones in input order.
+ *
+ * @param safes - A tuple or record of Safes (must not be empty)
+ * @returns A Safe mirroring the first settled Safe
+ *
+ * @example
+ * safe.race([slowRequest(), fastRequest()]).unwrap()
+ */
+export function safeRace<const S extends SafeInputs>(
+  safes: S
+): SafeCombined<S, SafeValueOf<SafeMembers<S>>, SafeErrorOf<SafeMembers<S>>> {
+  const results = settleAll(toList(safes));
+
+  if (!results.some(isPromiseLike))
+    return safeExec(() => {
+      if (!results.length) throw new Error('safe.race requires at least one Safe');
+      return unwrapResult(results[0] as SafeResult<any, any>);
+    }) as any;
+
+  return safeExec(() => Promise.race(results.map((result) => Promise.resolve(result))).then(unwrapResult)) as any;
+}
+
+/**
+ * How `safe.traverse` handles failed items:
+ * - `fail-fast` — fails as soon as an item fails and starts no further items
+ * - `collect` — runs every item, then fails if any failed
+ */
+export type TraverseMode = 'fail-fast' | 'collect';
+
+export type TraverseOptions = {
+  /** Maximum number of items in flight at once (defaults to no limit) */
+  concurrency?: number;
+  /** How failed items are handled (defaults to `'fail-fast'`) */
+  mode?: TraverseMode;
+};
+
+/**
+ * Runs a Safe-returning function over each item with bounded concurrency.
+ * Values keep the input order. Failures produce a {@link TraverseError} holding
+ * the errors alongside the result of every item, so partial results are not lost.
+ *
+ * @param items - The inputs
+ * @param fn - Function returning a Safe for each item
+ * @param options - Concurrency limit and failure mode
+ * @returns An async Safe of the values in input order
+ *
+ * @example
+ * safe.traverse(userIds, (id) => safe(() => fetchUser(id)), { concurrency: 4 })
+ *   .observeError((e) => save(e.results.filter((r) => r?.isOk)))
+ */
+export function safeTraverse<T, S extends SafeLike>(
+  items: Iterable<T>,
+  fn: (item: T, index: number) => S,
+  options: TraverseOptions = {}
+): Safe<Promise<SafeValueOf<S>[]>, TraverseError<SafeValueOf<S>, SafeErrorOf<S>>> {
+  const list = [...items];
+  const { concurrency = Infinity, mode = 'fail-fast' } = options;
+
+  return safeExec(
+    () =>
+      new Promise<unknown[]>((resolve, reject) => {
+        if (!(concurrency >= 1)) throw new RangeError('safe.traverse requires a concurrency of at least 1');
+        const results: (SafeResult<any, any> | undefined)[] = Array.from({ length: list.length }, () => undefined);
+        let started = 0;
+        let running = 0;
+        let failed = false;
+
+        const settleItem = (index: number): SafeResult<any, any> | Promise<SafeResult<any, any>> => {
+          try {
+            return settleAll([fn(list[index], index) as unknown as AnySafe])[0];
+          } catch (error) {
+            return safeResult.fail(error);
+          }
+        };
+
+        const finish = () => {
+          if (results.some((result) => !result?.isOk)) return reject(new TraverseError(results));
+          resolve(results.map((result) => result!.value));
+        };
+
+        const launch = () => {
+          while (!failed && running < concurrency && started < list.length) {
+            const index = started++;
+            running++;
+            Promise.resolve(settleItem(index)).then((result) => {
+              running--;
+              if (failed) return;
+              results[index] = result;
+              if (!result.isOk && mode === 'fail-fast') {
+                failed = true;
+                return reject(new TraverseError([...results], `Item ${index} failed: ${messageOf(result.error)}`));
+              }
+              if (started === list.length && running === 0) return finish();
+              launch();
+            });
+          }
+        };
+
+        if (!list.length) return resolve([]);
+        launch();
+      })
+  ) as any;
+}
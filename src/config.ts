@@ -0,0 +1,44 @@
+import type { Clock } from './util/clock';
+
+/**
+ * Turns a thrown value into the error a chain fails with.
+ * Receives the default normalizer, so only some values need custom handling.
+ */
+export type ErrorNormalizer = (thrown: unknown, normalize: (thrown: unknown) => Error) => Error;
+
+/**
+ * Global configuration, set with `safe.configure`.
+ */
+export type SafeConfig = {
+  /**
+   * Maps every thrown value to an error, e.g. to wrap them in your own error classes.
+   * Each value is normalized once; the errors it returns pass through later steps unchanged.
+   */
+  normalizeError?: ErrorNormalizer;
+  /**
+   * Records every step attached from now on, so chains can report their history with `inspect()`.
+   * `{ callSites: true }` also captures where each step was attached, at the cost of a stack trace per step.
+   */
+  debug?: boolean | { callSites?: boolean };
+  /**
+   * The clock every timer waits on — the `timeout` and `retry` steps, `safe.deadline` and the `retry` utility —
+   * e.g. a test clock from `ts-safe/testing`. A `clock` passed to a utility takes precedence.
+   */
+  clock?: Clock;
+};
+
+export const config: SafeConfig = {};
+
+/**
+ * Updates the global configuration. Setting an option to `undefined` restores its default.
+ *
+ * @param options - The options to change
+ *
+ * @example
+ * safe.configure({
+ *   normalizeError: (thrown, normalize) => (isAxiosError(thrown) ? new HttpError(thrown) : normalize(thrown)),
+ * });
+ */
+export const configure = (options: SafeConfig): void => {
+  Object.assign(config, options);
+};
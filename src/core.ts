@@ -1,5 +1,11 @@
-import { ExtractSafeValue, SafeResult, safeResult } from './result';
-import { isPromiseLike } from './shared';
+import { ExtractSafeError, ExtractSafeValue, keepError, SafeResult, safeResult, SerializedSafeResult } from './result';
+import { AbortError, ContextError, TimeoutError, toAbortError, ValidationError } from './errors';
+import { attachStep, ChainInspection, inspectSteps, recordStep, StepRecord } from './debug';
+import { instrumentStep, labelOf, StepKind } from './instrument';
+import { InferSchemaOutput, runSchema, StandardSchemaV1 } from './standard-schema';
+import { isFunction, isPromiseLike } from './shared';
+import { clockOf, sleep } from './util/clock';
+import { retrySchedule, type RetryOptions } from './util/retry';
 
 /**
  * A safe container for values that handles errors gracefully
@@ -14,6 +20,10 @@ import { isPromiseLike } from './shared';
  * **Side Effect** — runs logic, can affect chain state:
  * - `effect` — side effect on success (errors propagate, value preserved)
  * - `recover` — provides a recovery value on error
+ * - `mapError` — transforms the error, staying on the error track
+ * - `context` — labels failures with a breadcrumb trail
+ * - `ensure` / `filter` — fails the chain unless the value satisfies a predicate
+ * - `parse` / `parseAsync` — validates the value with a Standard Schema
  *
  * **Observe** — pure observation, never affects the chain:
  * - `observe` — observes the full SafeResult
@@ -25,25 +35,49 @@ import { isPromiseLike } from './shared';
  * - `orElse` — extracts value or returns fallback
  * - `match` — pattern matches on success/error
  * - `isOk` — checks success state
+ * - `toPromise` / `toSettled` / `toResult` — converts to a Promise, `PromiseSettledResult` or `SafeResult`
+ * - `toJSON` — encodes the result for transport
+ * - `inspect` — returns the recorded steps of the chain (debug mode)
+ * - `run` — executes a lazy chain (see {@link safeLazy})
+ *
+ * **Context** — configures how the rest of the chain runs:
+ * - `withSignal` — attaches an `AbortSignal` for cooperative cancellation
+ * - `timeout` — fails the chain if it has not settled in time
+ * - `retry` — re-runs the preceding steps when they fail
+ *
+ * The second type parameter `E` describes the failure channel. It defaults to `Error`,
+ * flows through `map`/`flatMap`, widens when a step declares new failures and narrows
+ * when `recover` handles them. It extends `Error`, since thrown non-errors are normalized into one.
+ *
+ * @template T - The success value type
+ * @template E - The failure type (defaults to `Error`)
  */
-export interface Safe<T> {
+export interface Safe<T, E extends Error = Error> {
   /**
    * Transforms the value inside the Safe container.
    * If the container has an error, the transform is skipped.
    *
+   * The optional `F` type parameter declares failures the transform may add to the chain.
+   *
    * @param transform - Function to transform the value
    * @returns A new Safe containing the transformed value
    *
    * @example
    * safe(2).map(x => x * 3).unwrap() // 6
+   * safe<User, NotFoundError>(load).map<Profile, DbError>(toProfile) // Safe<Profile, NotFoundError | DbError>
    */
-  map<U>(
-    transform: (value: [T] extends [PromiseLike<any>] ? Awaited<T> : T) => U
-  ): [U] extends [PromiseLike<any>] ? Safe<U> : [T] extends [PromiseLike<any>] ? Safe<Promise<U>> : Safe<U>;
+  map<U, F extends Error = never>(
+    transform: (value: [T] extends [PromiseLike<any>] ? Awaited<T> : T, context?: StepContext<E>) => U
+  ): [U] extends [PromiseLike<any>]
+    ? Safe<U, E | F>
+    : [T] extends [PromiseLike<any>]
+      ? Safe<Promise<U>, E | F>
+      : Safe<U, E | F>;
 
   /**
    * Transforms the value with a function that returns another Safe.
    * Flattens the nested Safe — useful for composing Safe operations.
+   * The failure type of the inner Safe is merged into the chain's failure type.
    *
    * @param transform - Function that returns another Safe
    * @returns A flattened Safe container
@@ -51,9 +85,13 @@ export interface Safe<T> {
    * @example
    * safe(1).flatMap(x => safe(x + 1)).unwrap() // 2
    */
-  flatMap<U>(
-    transform: (value: [T] extends [PromiseLike<any>] ? Awaited<T> : T) => Safe<U>
-  ): [U] extends [PromiseLike<any>] ? Safe<U> : [T] extends [PromiseLike<any>] ? Safe<Promise<U>> : Safe<U>;
+  flatMap<U, F extends Error = Error>(
+    transform: (value: [T] extends [PromiseLike<any>] ? Awaited<T> : T, context?: StepContext<E>) => Safe<U, F>
+  ): [U] extends [PromiseLike<any>]
+    ? Safe<U, E | F>
+    : [T] extends [PromiseLike<any>]
+      ? Safe<Promise<U>, E | F>
+      : Safe<U, E | F>;
 
   /**
    * Executes a side effect on success. **Affects the chain.**
@@ -75,9 +113,13 @@ export interface Safe<T> {
    *   .map(u => u.name)             // skipped if effect threw
    *   .unwrap()
    */
-  effect<U>(
-    fn: (value: [T] extends [PromiseLike<any>] ? Awaited<T> : T) => U
-  ): [T] extends [PromiseLike<any>] ? Safe<T> : [U] extends [PromiseLike<any>] ? Safe<Promise<T>> : Safe<T>;
+  effect<U, F extends Error = never>(
+    fn: (value: [T] extends [PromiseLike<any>] ? Awaited<T> : T, context?: StepContext<E>) => U
+  ): [T] extends [PromiseLike<any>]
+    ? Safe<T, E | F>
+    : [U] extends [PromiseLike<any>]
+      ? Safe<Promise<T>, E | F>
+      : Safe<T, E | F>;
 
   /**
    * Alias for {@link effect}. Runs a side effect on success.
@@ -88,9 +130,13 @@ export interface Safe<T> {
    *   .map(u => u.name)
    *   .unwrap()
    */
-  ifOk<U>(
-    fn: (value: [T] extends [PromiseLike<any>] ? Awaited<T> : T) => U
-  ): [T] extends [PromiseLike<any>] ? Safe<T> : [U] extends [PromiseLike<any>] ? Safe<Promise<T>> : Safe<T>;
+  ifOk<U, F extends Error = never>(
+    fn: (value: [T] extends [PromiseLike<any>] ? Awaited<T> : T, context?: StepContext<E>) => U
+  ): [T] extends [PromiseLike<any>]
+    ? Safe<T, E | F>
+    : [U] extends [PromiseLike<any>]
+      ? Safe<Promise<T>, E | F>
+      : Safe<T, E | F>;
 
   /**
    * Recovers from an error by providing a replacement value. **Affects the chain.**
@@ -98,6 +144,10 @@ export interface Safe<T> {
    * - Only runs when `isOk` is `false` (skipped on success)
    * - The return value becomes the **new chain value**
    * - After recovery, the chain continues in success state
+   * - A full recovery resets the failure type to `F` (defaults to `Error`, since the
+   *   recovery function itself may throw)
+   * - When a type guard is given, only matching errors are recovered and the rest
+   *   stay in the chain, narrowing the failure type to the unhandled ones
    *
    * @param fn - Recovery function that receives the error and returns a fallback value
    * @returns A Safe with either the original value or the recovery value
@@ -106,12 +156,146 @@ export interface Safe<T> {
    * safe(() => { throw new Error('fail') })
    *   .recover(err => 'default')  // chain is now ok with 'default'
    *   .unwrap()                   // 'default'
+   *
+   * safe<User, NotFoundError | DbError>(load)
+   *   .recover(isNotFound, () => guest) // Safe<User, DbError>
    */
-  recover<U>(
-    fn: (error: Error) => U
+  recover<U, F extends Error = Error>(
+    fn: (error: E, context?: StepContext<E>) => U
   ): Safe<
-    [T] extends [PromiseLike<any>] ? Promise<Awaited<T> | ([U] extends [PromiseLike<any>] ? Awaited<U> : U)> : T | U
+    [T] extends [PromiseLike<any>] ? Promise<Awaited<T> | ([U] extends [PromiseLike<any>] ? Awaited<U> : U)> : T | U,
+    F
   >;
+  recover<H extends E, U, F extends Error = never>(
+    guard: (error: E) => error is H,
+    fn: (error: H, context?: StepContext<E>) => U
+  ): Safe<
+    [T] extends [PromiseLike<any>] ? Promise<Awaited<T> | ([U] extends [PromiseLike<any>] ? Awaited<U> : U)> : T | U,
+    Exclude<E, H> | F
+  >;
+
+  /**
+   * Transforms the error while staying in the failure state. **Affects the chain.**
+   *
+   * - Only runs when `isOk` is `false` (skipped on success)
+   * - The return value (an `Error`) becomes the **new error** as is, and its type replaces `E`
+   * - If the function returns a Promise, the mapped error is awaited and the chain becomes async
+   * - If the function throws, the thrown error becomes the new error
+   *
+   * @param fn - Function that receives the error and returns the replacement error
+   * @returns A Safe with the same value or the mapped error
+   *
+   * @example
+   * safe(() => db.query(sql))
+   *   .mapError(e => new DbError('Query failed', { cause: e })) // Safe<Row[], DbError>
+   *   .match({ ok: rows => rows, err: e => e.code })
+   */
+  mapError<F extends Error>(
+    fn: (error: E, context?: StepContext<E>) => PromiseLike<F>
+  ): [T] extends [PromiseLike<any>] ? Safe<T, F> : Safe<Promise<T>, F>;
+  mapError<F extends Error>(fn: (error: E, context?: StepContext<E>) => F): Safe<T, F>;
+
+  /**
+   * Labels failures that reach this point with a breadcrumb. **Affects the chain.**
+   *
+   * - Only runs when `isOk` is `false` (skipped on success)
+   * - The error is wrapped in a {@link ContextError} whose `cause` is the original error
+   * - Failures that already carry a trail get the label prepended, so the trail reads outermost first
+   *
+   * @param label - Describes what the preceding steps were doing
+   * @returns A Safe whose failures are labelled
+   *
+   * @example
+   * safe(() => fetchProfile(id))
+   *   .map(parseProfile)
+   *   .context('loading user profile')
+   *   .observeError(e => console.error(formatErrorTrail(e)))
+   */
+  context(label: string): Safe<T, ContextError<E extends ContextError<infer C> ? C : E>>;
+
+  /**
+   * Fails the chain unless the value satisfies the predicate. **Affects the chain.**
+   *
+   * - Only runs when `isOk` is `true` (skipped on error)
+   * - With a TypeScript type guard, the value type is **narrowed** (`Safe<A | B>` → `Safe<A>`)
+   * - On failure the chain enters error state with the given error, an `Error` built from
+   *   the given message, or the error returned by the given factory
+   *
+   * @param predicate - Check (or type guard) the value must pass
+   * @param error - Error, message or `(value) => error` factory used when the check fails
+   * @returns A Safe with the (narrowed) value
+   *
+   * @example
+   * safe(findUser(id))                                      // Safe<User | null>
+   *   .ensure((u): u is User => u !== null, 'Not found')    // Safe<User>
+   *   .ensure(u => u.active, u => new InactiveError(u.id))  // Safe<User, Error | InactiveError>
+   */
+  ensure<S extends [T] extends [PromiseLike<any>] ? Awaited<T> : T>(
+    predicate: (value: [T] extends [PromiseLike<any>] ? Awaited<T> : T) => value is S,
+    message?: string
+  ): [T] extends [PromiseLike<any>] ? Safe<Promise<S>, E | Error> : Safe<S, E | Error>;
+  ensure<S extends [T] extends [PromiseLike<any>] ? Awaited<T> : T, F extends Error>(
+    predicate: (value: [T] extends [PromiseLike<any>] ? Awaited<T> : T) => value is S,
+    error: F | ((value: [T] extends [PromiseLike<any>] ? Awaited<T> : T) => F)
+  ): [T] extends [PromiseLike<any>] ? Safe<Promise<S>, E | F> : Safe<S, E | F>;
+  ensure(
+    predicate: (value: [T] extends [PromiseLike<any>] ? Awaited<T> : T) => boolean,
+    message?: string
+  ): Safe<T, E | Error>;
+  ensure<F extends Error>(
+    predicate: (value: [T] extends [PromiseLike<any>] ? Awaited<T> : T) => boolean,
+    error: F | ((value: [T] extends [PromiseLike<any>] ? Awaited<T> : T) => F)
+  ): Safe<T, E | F>;
+
+  /**
+   * Keeps the value only if it satisfies the predicate, like {@link ensure} with a message.
+   *
+   * @example
+   * safe(input)
+   *   .filter((x): x is string => typeof x === 'string', 'Expected a string')
+   *   .map(s => s.trim())
+   */
+  filter<S extends [T] extends [PromiseLike<any>] ? Awaited<T> : T>(
+    predicate: (value: [T] extends [PromiseLike<any>] ? Awaited<T> : T) => value is S,
+    message?: string
+  ): [T] extends [PromiseLike<any>] ? Safe<Promise<S>, E | Error> : Safe<S, E | Error>;
+  filter(
+    predicate: (value: [T] extends [PromiseLike<any>] ? Awaited<T> : T) => boolean,
+    message?: string
+  ): Safe<T, E | Error>;
+
+  /**
+   * Parses the value with a Standard Schema (zod, valibot, arktype, ...). **Affects the chain.**
+   *
+   * - Only runs when `isOk` is `true` (skipped on error)
+   * - The value becomes the schema's output, so the type is **narrowed** to it
+   * - On invalid input the chain fails with a {@link ValidationError} carrying the schema's issues and paths
+   * - Sync chains need a sync schema; use {@link parseAsync} for schemas with async checks
+   *
+   * @param schema - Any Standard Schema v1 validator
+   * @returns A Safe of the parsed value
+   *
+   * @example
+   * safe(() => JSON.parse(body))
+   *   .parse(UserSchema)          // Safe<User, Error | ValidationError>
+   *   .map(user => user.name)
+   */
+  parse<S extends StandardSchemaV1>(
+    schema: S
+  ): [T] extends [PromiseLike<any>]
+    ? Safe<Promise<InferSchemaOutput<S>>, E | ValidationError>
+    : Safe<InferSchemaOutput<S>, E | ValidationError>;
+
+  /**
+   * Like {@link parse}, but also accepts schemas with async checks. The chain always becomes async.
+   *
+   * @param schema - Any Standard Schema v1 validator
+   * @returns An async Safe of the parsed value
+   *
+   * @example
+   * safe(form).parseAsync(SignupSchema) // Safe<Promise<Signup>, Error | ValidationError>
+   */
+  parseAsync<S extends StandardSchemaV1>(schema: S): Safe<Promise<InferSchemaOutput<S>>, E | ValidationError>;
 
   /**
    * Observes the full state without affecting the chain. **No chain impact.**
@@ -129,7 +313,9 @@ export interface Safe<T> {
    *   .observe(result => console.log(result))  // { isOk: true, value: 42 }
    *   .unwrap()                                 // 42
    */
-  observe(fn: (result: [T] extends [PromiseLike<any>] ? SafeResult<Awaited<T>> : SafeResult<T>) => any): Safe<T>;
+  observe(
+    fn: (result: [T] extends [PromiseLike<any>] ? SafeResult<Awaited<T>, E> : SafeResult<T, E>) => any
+  ): Safe<T, E>;
 
   /**
    * Observes the success value without affecting the chain. **No chain impact.**
@@ -147,7 +333,7 @@ export interface Safe<T> {
    *   .observeOk(value => console.log('Got:', value))  // logs 'Got: 42'
    *   .unwrap()                                         // 42
    */
-  observeOk(fn: (value: [T] extends [PromiseLike<any>] ? Awaited<T> : T) => any): Safe<T>;
+  observeOk(fn: (value: [T] extends [PromiseLike<any>] ? Awaited<T> : T) => any): Safe<T, E>;
 
   /**
    * Observes the error without affecting the chain. **No chain impact.**
@@ -165,7 +351,7 @@ export interface Safe<T> {
    *   .observeError(err => console.error(err))  // logs the error
    *   .recover(() => 'fallback')
    */
-  observeError(fn: (error: Error) => any): Safe<T>;
+  observeError(fn: (error: E) => any): Safe<T, E>;
 
   /**
    * Extracts the final value by pattern matching on success/error state.
@@ -181,7 +367,7 @@ export interface Safe<T> {
    */
   match<U, F>(handlers: {
     ok: (value: [T] extends [PromiseLike<any>] ? Awaited<T> : T) => U;
-    err: (error: Error) => F;
+    err: (error: E) => F;
   }): [T] extends [PromiseLike<any>] ? Promise<U | F> : U | F;
 
   /**
@@ -210,43 +396,392 @@ export interface Safe<T> {
    * safe(() => { throw new Error() }).orElse('default') // 'default'
    */
   orElse<U>(fallback: U): [T] extends [PromiseLike<any>] ? Promise<Awaited<T> | U> : T | U;
+
+  /**
+   * Converts the chain into a Promise that resolves with the value or rejects with the error.
+   *
+   * @returns A Promise of the value
+   *
+   * @example
+   * await safe(() => readConfig()).map(parse).toPromise();
+   */
+  toPromise(): Promise<[T] extends [PromiseLike<any>] ? Awaited<T> : T>;
+
+  /**
+   * Converts the result into a `PromiseSettledResult` (`fulfilled` / `rejected`).
+   *
+   * @returns The settled result (a Promise of it for async chains)
+   *
+   * @example
+   * safe(1).toSettled() // { status: 'fulfilled', value: 1 }
+   */
+  toSettled(): [T] extends [PromiseLike<any>] ? Promise<PromiseSettledResult<Awaited<T>>> : PromiseSettledResult<T>;
+
+  /**
+   * Converts the chain into its raw {@link SafeResult}.
+   *
+   * @returns The result (a Promise of it for async chains)
+   *
+   * @example
+   * safe(() => { throw new Error('x') }).toResult() // { isOk: false, error: Error('x') }
+   */
+  toResult(): [T] extends [PromiseLike<any>] ? Promise<SafeResult<Awaited<T>, E>> : SafeResult<T, E>;
+
+  /**
+   * Encodes the result with `safeResult.serialize`, so `JSON.stringify(safe(...))` keeps the error.
+   * For async chains it returns a Promise; await it before stringifying.
+   *
+   * @returns The JSON-safe result
+   *
+   * @example
+   * JSON.stringify(safe(() => { throw new TypeError('bad') }))
+   * // '{"isOk":false,"error":{"name":"TypeError","message":"bad","stack":"..."}}'
+   */
+  toJSON(): [T] extends [PromiseLike<any>] ? Promise<SerializedSafeResult<Awaited<T>>> : SerializedSafeResult<T>;
+
+  /**
+   * Returns the history of the chain: which steps ran or were skipped, what each produced,
+   * how long it took and, with `callSites`, where it was attached.
+   * Steps are only recorded in debug mode (`safe.configure({ debug: true })`); otherwise the history is empty.
+   *
+   * - For async chains it returns a Promise that resolves once the chain settles
+   * - A lazy chain runs first and reports that run
+   *
+   * @returns The recorded steps, and the step the error started at when the chain failed
+   *
+   * @example
+   * safe.configure({ debug: { callSites: true } });
+   *
+   * const { steps, failedAt } = await safe(() => fetchUser(id)).map(toProfile).inspect();
+   * if (failedAt) console.error(`failed in ${formatStep(failedAt)}`);
+   * // failed in map #1 attached at /app/src/user-service.ts:42:52
+   */
+  inspect(): [T] extends [PromiseLike<any>] ? Promise<ChainInspection> : ChainInspection;
+
+  /**
+   * Executes the chain and returns it as an eager Safe.
+   *
+   * - For a lazy chain, every call runs the recorded steps again from the start
+   * - An eager chain has already run, so an equivalent Safe is returned
+   *
+   * @returns An eager Safe holding the result of this run
+   *
+   * @example
+   * const program = safe.lazy(() => readConfig()).map(parse);
+   * program.run().isOk   // runs readConfig
+   * program.run().isOk   // runs readConfig again
+   */
+  run(): Safe<T, E>;
+
+  /**
+   * Makes the Safe delegable with `yield*` inside `safe.gen` generators.
+   * The `yield*` expression evaluates to the success value; a failure short-circuits the generator.
+   *
+   * @example
+   * safe.gen(function* () {
+   *   const user = yield* loadUser(id); // User
+   *   return user.name;
+   * });
+   */
+  [Symbol.iterator](): Generator<Safe<T, E>, [T] extends [PromiseLike<any>] ? Awaited<T> : T, any>;
+
+  /**
+   * Attaches an `AbortSignal` to the rest of the chain.
+   *
+   * - Once the signal aborts, pending `map`/`flatMap`/`effect`/`recover` steps are skipped
+   * - A step that is still in flight is abandoned and the chain settles with an {@link AbortError}
+   * - Observers still run, so `observeError` sees the `AbortError`
+   * - Step callbacks receive the signal as `context.signal`, so work like `fetch` can be cancelled too
+   * - A signal the chain already has (its own, or a deadline's) still applies; either one aborts the chain
+   *
+   * @param signal - The signal that cancels the chain
+   * @returns The same Safe, bound to the signal
+   *
+   * @example
+   * safe(userId)
+   *   .withSignal(controller.signal)
+   *   .map((id, context) => fetch(`/api/users/${id}`, { signal: context?.signal }))
+   *   .map(res => res.json())
+   */
+  withSignal(signal: AbortSignal): Safe<T, E | AbortError>;
+
+  /**
+   * Fails the chain with a {@link TimeoutError} if it has not settled within `ms`.
+   *
+   * - The timer starts when `timeout` is called and covers every preceding step
+   * - Synchronous chains have already settled, so they are returned unchanged
+   * - Work still in flight is abandoned, not cancelled; use {@link safeDeadline} to cancel it through the signal
+   *
+   * @param ms - Time budget in milliseconds
+   * @returns A Safe that fails with `TimeoutError` when the budget is exceeded
+   *
+   * @example
+   * await safe(() => fetchUser(id))
+   *   .timeout(1000)
+   *   .recover(err => (err instanceof TimeoutError ? cachedUser : Promise.reject(err)))
+   *   .unwrap();
+   */
+  timeout(ms: number): Safe<T, E | TimeoutError>;
+
+  /**
+   * Re-runs the preceding steps when the chain has failed.
+   *
+   * - Covers every step since the start of the chain or the previous `retry`
+   * - Re-run step callbacks receive `context.attempt` and `context.lastError`; the first attempt runs
+   *   before `retry` is attached, so it only gets a context when the chain has a signal
+   * - Without a `delay` a sync chain stays sync; a `delay` makes it async
+   * - Stops retrying once the chain's signal aborts, without waiting out a pending delay
+   *
+   * @param options - `maxTries` (default: 3), `delay` in ms (default: 0), `backoff` (default: false),
+   * `maxDelay`, `jitter`, and the `retryIf` and `onRetry` callbacks, as for the `retry` utility
+   * @returns A Safe holding the first successful attempt, or the last error
+   *
+   * @example
+   * safe(() => connect())
+   *   .map((conn, context) => query(conn, { fresh: (context?.attempt ?? 1) > 1 }))
+   *   .retry({ maxTries: 3 })
+   *   .unwrap()
+   */
+  retry(options?: RetryOptions & { delay?: 0 }): Safe<T, E>;
+  retry(options: RetryOptions): [T] extends [PromiseLike<any>] ? Safe<T, E> : Safe<Promise<T>, E>;
+}
+
+/**
+ * Context passed to step callbacks as their last argument.
+ * It is only passed when the chain has a signal or the step is re-run by `retry`.
+ *
+ * @template E - The failure type of the chain
+ */
+export interface StepContext<E = Error> {
+  /**
+   * The chain's `AbortSignal`, if one is attached.
+   */
+  signal?: AbortSignal;
+  /**
+   * The attempt number: 1 on the first run, greater than 1 when re-run by `retry`.
+   * A step that gets no context is on its first run.
+   */
+  attempt: number;
+  /**
+   * The error of the previous attempt, when re-run by `retry`.
+   */
+  lastError?: E;
 }
 
-const createChain = <Result extends SafeResult | Promise<SafeResult>, T = ExtractSafeValue<Result>>(
-  result: Result
-): Safe<T> => {
-  const next = <U>(cb: (r: [T] extends [PromiseLike<any>] ? SafeResult<Awaited<T>> : SafeResult<T>) => U) => {
-    return createChain(safeResult.update(result, cb as any)) as [U] extends [PromiseLike<any>]
-      ? Safe<U>
-      : [T] extends [PromiseLike<any>]
-        ? Safe<Promise<U>>
-        : Safe<U>;
+type Attempt = Pick<StepContext<unknown>, 'attempt' | 'lastError'>;
+
+type Call = <A>(fn: (arg: A, context?: StepContext<any>) => any, arg: A) => any;
+
+/**
+ * The callback of a step, receiving the result of the previous step.
+ */
+type StepCallback<T, E extends Error> = (
+  prev: [T] extends [PromiseLike<any>] ? SafeResult<Awaited<T>, E> : SafeResult<T, E>,
+  call: Call
+) => any;
+
+type Source = SafeResult<any, any> | Promise<SafeResult<any, any>>;
+
+/**
+ * Rebuilds a chain's result from its retry boundary (or from the start, for lazy chains).
+ */
+type Replay = (attempt?: Attempt) => Source;
+
+/**
+ * Options that configure how a chain runs.
+ */
+export interface SafeOptions {
+  /**
+   * Cancels the chain when aborted. See {@link Safe.withSignal}.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Signal of the chain whose step callback is currently running.
+ * Chains created inside a step inherit it, so nested chains cannot outlive the outer one.
+ */
+let ambientSignal: AbortSignal | undefined;
+
+const withAmbientSignal = <R>(signal: AbortSignal, fn: () => R): R => {
+  const prev = ambientSignal;
+  ambientSignal = signal;
+  try {
+    return fn();
+  } finally {
+    ambientSignal = prev;
+  }
+};
+
+/**
+ * Creates a signal that aborts as soon as any of the given signals aborts.
+ */
+const linkSignals = (...signals: AbortSignal[]): AbortSignal => {
+  const controller = new AbortController();
+  for (const signal of signals) {
+    if (signal.aborted) {
+      controller.abort(signal.reason);
+      break;
+    }
+    signal.addEventListener('abort', () => controller.abort(signal.reason), { once: true });
+  }
+  return controller.signal;
+};
+
+/**
+ * Merges the ambient signal into the options of a newly created chain.
+ */
+const inheritOptions = (options: SafeOptions = {}): SafeOptions => {
+  if (!ambientSignal || options.signal === ambientSignal) return options;
+  return { ...options, signal: options.signal ? linkSignals(ambientSignal, options.signal) : ambientSignal };
+};
+
+/**
+ * Settles with the promise, or rejects with an `AbortError` as soon as the signal aborts.
+ */
+const abortable = <T>(promise: PromiseLike<T>, signal: AbortSignal): Promise<T> => {
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(toAbortError(signal));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+};
+
+const createChain = <
+  Result extends SafeResult<any, any> | Promise<SafeResult<any, any>>,
+  T = ExtractSafeValue<Result>,
+  E extends Error = ExtractSafeError<Result>,
+>(
+  result: Result,
+  options: SafeOptions = {},
+  replay?: Replay,
+  lazy = false,
+  source?: (context?: StepContext<E>) => unknown,
+  history?: StepRecord[]
+): Safe<T, E> => {
+  const { signal } = options;
+  const rerun: Replay = replay ?? (() => result);
+
+  /**
+   * The result terminal operations read. Lazy chains run again on every call.
+   */
+  const current = (): Source => (lazy ? rerun() : result);
+
+  /**
+   * Builds the callback of a step for one run. `attempt` is set when the step is re-run by `retry`.
+   * Once the signal aborts, steps are skipped and observers see the `AbortError`.
+   */
+  const step = (
+    cb: (r: [T] extends [PromiseLike<any>] ? SafeResult<Awaited<T>, E> : SafeResult<T, E>, call: Call) => any,
+    observer: boolean,
+    attempt?: Attempt
+  ) => {
+    // Passes the context only when there is something to tell; chains created inside inherit the signal
+    const call: Call = (fn, arg) => {
+      if (!signal && !attempt) return fn(arg);
+      const context = { signal, attempt: attempt?.attempt ?? 1, lastError: attempt?.lastError };
+      return signal ? withAmbientSignal(signal, () => fn(arg, context)) : fn(arg, context);
+    };
+    if (!signal) return (prev: any) => cb(prev, call);
+    return (prev: any) => {
+      if (signal.aborted) {
+        const error = toAbortError(signal);
+        if (!observer) throw error;
+        prev = safeResult.fail(error);
+      }
+      const r = cb(prev, call);
+      return isPromiseLike(r) ? abortable(r, signal) : r;
+    };
+  };
+
+  /**
+   * Derives a chain whose result is `fn` applied to this chain's result.
+   * Lazy chains only record it; `boundary` makes the derived result the retry boundary of later steps.
+   */
+  const derive = (
+    fn: (r: Source, attempt?: Attempt) => Source,
+    nextOptions = options,
+    boundary = false,
+    nextHistory = history
+  ): any => {
+    const replayDerived: Replay = (attempt) => fn(rerun(attempt), attempt);
+    if (lazy) return createChain(undefined as any, nextOptions, replayDerived, true, undefined, nextHistory);
+    return createChain(fn(result), nextOptions, boundary ? undefined : replayDerived, false, undefined, nextHistory);
+  };
+
+  /**
+   * Appends a step whose callback is built for each run from the result it receives.
+   * The step is reported to instrumentation hooks as `kind`, and recorded in debug mode.
+   */
+  const append = (kind: StepKind, build: (r: Source) => StepCallback<T, E>, observer = false, label?: string): any => {
+    const record = attachStep(kind, label, history?.length ?? 0);
+    const run = (r: Source, attempt?: Attempt) => {
+      const cb = build(r);
+      const stepped = step(instrumentStep(kind, cb, label), observer, attempt);
+      return safeResult.update(r, record ? recordStep(record, stepped) : stepped);
+    };
+    return derive(run, options, false, record ? [...(history ?? []), record] : history);
   };
 
-  const effectFn = <U>(fn: (value: [T] extends [PromiseLike<any>] ? Awaited<T> : T) => U): any => {
-    return next((prev) => {
+  /**
+   * Appends a step to the chain.
+   */
+  const next = (kind: StepKind, cb: StepCallback<T, E>, observer = false, label?: string): any =>
+    append(kind, () => cb, observer, label);
+
+  // The step a constructor starts the chain with is the chain's source, reported like any step
+  if (source) return next('source', (_prev, call) => call((_: undefined, context) => source(context), undefined));
+
+  const ensureFn =
+    (kind: 'ensure' | 'filter') =>
+    (predicate: (value: any, context?: StepContext<E>) => boolean, error?: unknown): any => {
+      return next(kind, (prev, call) => {
+        if (!prev.isOk) throw prev.error;
+        if (call(predicate, prev.value)) return prev.value;
+        if (isFunction(error)) throw error(prev.value);
+        if (typeof error === 'string') throw new Error(error);
+        throw error ?? new Error('Value did not satisfy the predicate');
+      });
+    };
+
+  const effectFn = (
+    fn: (value: [T] extends [PromiseLike<any>] ? Awaited<T> : T, context?: StepContext<E>) => any
+  ): any => {
+    return next('effect', (prev, call) => {
       if (!prev.isOk) throw prev.error;
-      const v = fn(prev.value as [T] extends [PromiseLike<any>] ? Awaited<T> : T);
+      const v = call(fn, prev.value as [T] extends [PromiseLike<any>] ? Awaited<T> : T);
       if (isPromiseLike(v)) return v.then(() => prev.value);
       return prev.value;
     });
   };
 
   return {
-    map<U>(
-      transform: (value: [T] extends [PromiseLike<any>] ? Awaited<T> : T) => U
-    ): [U] extends [PromiseLike<any>] ? Safe<U> : [T] extends [PromiseLike<any>] ? Safe<Promise<U>> : Safe<U> {
-      return next((prev) => {
-        if (prev.isOk) return transform(prev.value as [T] extends [PromiseLike<any>] ? Awaited<T> : T);
-        throw prev.error;
-      });
+    map(transform: (value: [T] extends [PromiseLike<any>] ? Awaited<T> : T, context?: StepContext<E>) => any): any {
+      return next(
+        'map',
+        (prev, call) => {
+          if (prev.isOk) return call(transform, prev.value as [T] extends [PromiseLike<any>] ? Awaited<T> : T);
+          throw prev.error;
+        },
+        false,
+        labelOf(transform)
+      );
     },
 
-    flatMap<U>(
-      transform: (value: [T] extends [PromiseLike<any>] ? Awaited<T> : T) => Safe<U>
-    ): [U] extends [PromiseLike<any>] ? Safe<U> : [T] extends [PromiseLike<any>] ? Safe<Promise<U>> : Safe<U> {
-      return next((prev) => {
-        if (prev.isOk) return transform(prev.value as [T] extends [PromiseLike<any>] ? Awaited<T> : T).unwrap();
+    flatMap(
+      transform: (value: [T] extends [PromiseLike<any>] ? Awaited<T> : T, context?: StepContext<E>) => Safe<any, any>
+    ): any {
+      return next('flatMap', (prev, call) => {
+        if (prev.isOk) return call(transform, prev.value as [T] extends [PromiseLike<any>] ? Awaited<T> : T).unwrap();
         throw prev.error;
       });
     },
@@ -254,66 +789,123 @@ const createChain = <Result extends SafeResult | Promise<SafeResult>, T = Extrac
     effect: effectFn,
     ifOk: effectFn,
 
-    recover<U>(
-      fn: (error: Error) => U
-    ): Safe<
-      [T] extends [PromiseLike<any>] ? Promise<Awaited<T> | ([U] extends [PromiseLike<any>] ? Awaited<U> : U)> : T | U
-    > {
-      return next((result) => {
-        if (!result.isOk) return fn(result.error);
-        return result.value;
-      }) as Safe<
-        [T] extends [PromiseLike<any>] ? Promise<Awaited<T> | ([U] extends [PromiseLike<any>] ? Awaited<U> : U)> : T | U
-      >;
+    recover(
+      ...args:
+        | [fn: (error: E, context?: StepContext<E>) => any]
+        | [guard: (error: E) => boolean, fn: (error: E, context?: StepContext<E>) => any]
+    ): any {
+      const [guard, fn] = args.length === 1 ? [undefined, args[0]] : args;
+      return next('recover', (result, call) => {
+        if (result.isOk) return result.value;
+        if (guard && !guard(result.error)) throw result.error;
+        return call(fn, result.error);
+      });
     },
 
-    observe(fn: (result: [T] extends [PromiseLike<any>] ? SafeResult<Awaited<T>> : SafeResult<T>) => any): Safe<T> {
-      return next((prev) => {
-        try {
-          const r = fn({ ...prev } as [T] extends [PromiseLike<any>] ? SafeResult<Awaited<T>> : SafeResult<T>);
-          if (isPromiseLike(r)) r.then(null, () => {});
-        } catch {
-          // Errors are intentionally ignored in observe
-        }
-        if (prev.isOk) return prev.value;
-        throw prev.error;
-      }) as Safe<T>;
+    mapError(fn: (error: E, context?: StepContext<E>) => any): any {
+      return next('mapError', (result, call) => {
+        if (result.isOk) return result.value;
+        const mapped = call(fn, result.error);
+        if (isPromiseLike(mapped))
+          return mapped.then((error) => {
+            throw keepError(error);
+          });
+        throw keepError(mapped);
+      });
+    },
+
+    context(label: string): any {
+      return next(
+        'context',
+        (result) => {
+          if (result.isOk) return result.value;
+          throw ContextError.wrap(label, result.error);
+        },
+        false,
+        label
+      );
+    },
+
+    ensure: ensureFn('ensure'),
+    filter: ensureFn('filter'),
+
+    parse(schema: StandardSchemaV1): any {
+      // Async schemas are only allowed where the chain is already async
+      return append('parse', (r) => (prev, call) => {
+        if (!prev.isOk) throw prev.error;
+        return call((value) => runSchema(schema, value, isPromiseLike(r)), prev.value);
+      });
+    },
+
+    parseAsync(schema: StandardSchemaV1): any {
+      return next('parseAsync', (prev, call) => {
+        if (!prev.isOk) throw prev.error;
+        return Promise.resolve(call((value) => runSchema(schema, value, true), prev.value));
+      });
     },
 
-    observeOk(fn: (value: [T] extends [PromiseLike<any>] ? Awaited<T> : T) => any): Safe<T> {
-      return next((prev) => {
-        if (prev.isOk) {
+    observe(
+      fn: (result: [T] extends [PromiseLike<any>] ? SafeResult<Awaited<T>, E> : SafeResult<T, E>) => any
+    ): Safe<T, E> {
+      return next(
+        'observe',
+        (prev) => {
           try {
-            const r = fn(prev.value as [T] extends [PromiseLike<any>] ? Awaited<T> : T);
+            const r = fn({ ...prev });
             if (isPromiseLike(r)) r.then(null, () => {});
           } catch {
-            // Errors are intentionally ignored in observeOk
+            // Errors are intentionally ignored in observe
           }
-        }
-        if (prev.isOk) return prev.value;
-        throw prev.error;
-      }) as Safe<T>;
+          if (prev.isOk) return prev.value;
+          throw prev.error;
+        },
+        true
+      );
     },
 
-    observeError(fn: (error: Error) => any): Safe<T> {
-      return next((prev) => {
-        if (!prev.isOk) {
-          try {
-            const r = fn(prev.error);
-            if (isPromiseLike(r)) r.then(null, () => {});
-          } catch {
-            // Errors are intentionally ignored in observeError
+    observeOk(fn: (value: [T] extends [PromiseLike<any>] ? Awaited<T> : T) => any): Safe<T, E> {
+      return next(
+        'observeOk',
+        (prev) => {
+          if (prev.isOk) {
+            try {
+              const r = fn(prev.value as [T] extends [PromiseLike<any>] ? Awaited<T> : T);
+              if (isPromiseLike(r)) r.then(null, () => {});
+            } catch {
+              // Errors are intentionally ignored in observeOk
+            }
           }
-        }
-        if (prev.isOk) return prev.value;
-        throw prev.error;
-      }) as Safe<T>;
+          if (prev.isOk) return prev.value;
+          throw prev.error;
+        },
+        true
+      );
+    },
+
+    observeError(fn: (error: E) => any): Safe<T, E> {
+      return next(
+        'observeError',
+        (prev) => {
+          if (!prev.isOk) {
+            try {
+              const r = fn(prev.error);
+              if (isPromiseLike(r)) r.then(null, () => {});
+            } catch {
+              // Errors are intentionally ignored in observeError
+            }
+          }
+          if (prev.isOk) return prev.value;
+          throw prev.error;
+        },
+        true
+      );
     },
 
     match<U, F>(handlers: {
       ok: (value: [T] extends [PromiseLike<any>] ? Awaited<T> : T) => U;
-      err: (error: Error) => F;
+      err: (error: E) => F;
     }): [T] extends [PromiseLike<any>] ? Promise<U | F> : U | F {
+      const result = current();
       if (isPromiseLike(result))
         return result.then((v) => {
           if (v.isOk) return handlers.ok(v.value as [T] extends [PromiseLike<any>] ? Awaited<T> : T);
@@ -330,6 +922,7 @@ const createChain = <Result extends SafeResult | Promise<SafeResult>, T = Extrac
     },
 
     unwrap(): T {
+      const result = current();
       if (isPromiseLike(result))
         return result.then((v) => {
           if (v.isOk) return v.value;
@@ -340,17 +933,122 @@ const createChain = <Result extends SafeResult | Promise<SafeResult>, T = Extrac
       throw result.error;
     },
 
-    isOk: (isPromiseLike(result) ? result.then((v) => Promise.resolve(v.isOk)) : result.isOk) as [T] extends [
-      PromiseLike<any>,
-    ]
-      ? Promise<boolean>
-      : boolean,
+    get isOk() {
+      const result = current();
+      return (isPromiseLike(result) ? result.then((v) => Promise.resolve(v.isOk)) : result.isOk) as [T] extends [
+        PromiseLike<any>,
+      ]
+        ? Promise<boolean>
+        : boolean;
+    },
 
     orElse<U>(fallback: U): [T] extends [PromiseLike<any>] ? Promise<Awaited<T> | U> : T | U {
-      return next((result) => {
-        if (!result.isOk) return fallback;
-        return result.value;
-      }).unwrap() as [T] extends [PromiseLike<any>] ? Promise<Awaited<T> | U> : T | U;
+      return next(
+        'orElse',
+        (result) => {
+          if (!result.isOk) return fallback;
+          return result.value;
+        },
+        true
+      ).unwrap();
+    },
+
+    withSignal(signal: AbortSignal): Safe<T, E | AbortError> {
+      // A chain that settles after the signal already aborted fails with the AbortError
+      const settle = (r: SafeResult<any, any>) => (signal.aborted ? safeResult.fail(toAbortError(signal)) : r);
+      const bind = (r: SafeResult<any, any> | Promise<SafeResult<any, any>>) =>
+        isPromiseLike(r) ? abortable(r, signal).then(settle, (error) => safeResult.fail(error)) : settle(r);
+      const linked = options.signal ? linkSignals(options.signal, signal) : signal;
+      return derive(bind, { ...options, signal: linked }) as Safe<T, E | AbortError>;
+    },
+
+    timeout(ms: number): Safe<T, E | TimeoutError> {
+      const limit = (r: SafeResult<any, any> | Promise<SafeResult<any, any>>) => {
+        if (!isPromiseLike(r)) return r;
+        return new Promise<SafeResult<any, any>>((resolve) => {
+          const cancel = clockOf().setTimeout(() => resolve(safeResult.fail(new TimeoutError(ms))), ms);
+          r.then((settled) => {
+            cancel();
+            resolve(settled);
+          });
+        });
+      };
+      return derive(limit);
+    },
+
+    retry(retryOptions: RetryOptions = {}): any {
+      const maxTries = retryOptions.maxTries ?? 3;
+      const delay = retryOptions.delay ?? 0;
+      const { retryIf, onRetry } = retryOptions;
+
+      const settle = (
+        r: SafeResult<any, any> | PromiseLike<SafeResult<any, any>>,
+        attempt: number,
+        nextDelay: (attempt: number) => number
+      ): any => {
+        if (isPromiseLike(r)) return r.then((settled) => settle(settled, attempt, nextDelay));
+        if (r.isOk || attempt >= maxTries || signal?.aborted) return r;
+        let wait: number;
+        try {
+          if (retryIf && !retryIf(r.error, attempt)) return r;
+          wait = nextDelay(attempt);
+          onRetry?.(r.error, attempt, wait);
+        } catch (error) {
+          return safeResult.fail(error);
+        }
+        const again = () => settle(rerun({ attempt: attempt + 1, lastError: r.error }), attempt + 1, nextDelay);
+        if (wait > 0) return sleep(clockOf(), wait, signal).then(again, (error) => safeResult.fail(error));
+        return again();
+      };
+
+      return derive(
+        (r) => {
+          const settled = settle(r, 1, retrySchedule(retryOptions, 0));
+          // A delay makes the chain async even when the first attempt succeeds, as its type says
+          return delay > 0 && !isPromiseLike(settled) ? Promise.resolve(settled) : settled;
+        },
+        options,
+        true
+      );
+    },
+
+    toPromise(): any {
+      return Promise.resolve(current()).then((settled) => {
+        if (settled.isOk) return settled.value;
+        throw settled.error;
+      });
+    },
+
+    toSettled(): any {
+      const settle = (r: SafeResult<any, any>): PromiseSettledResult<any> =>
+        r.isOk ? { status: 'fulfilled', value: r.value } : { status: 'rejected', reason: r.error };
+      const result = current();
+      return isPromiseLike(result) ? result.then(settle) : settle(result);
+    },
+
+    toResult(): any {
+      const result = current();
+      return isPromiseLike(result) ? result.then((settled) => ({ ...settled })) : { ...result };
+    },
+
+    toJSON(): any {
+      const result = current();
+      if (isPromiseLike(result)) return result.then((settled) => safeResult.serialize(settled));
+      return safeResult.serialize(result);
+    },
+
+    inspect(): any {
+      const result = current();
+      const records = history ?? [];
+      return isPromiseLike(result) ? result.then(() => inspectSteps(records)) : inspectSteps(records);
+    },
+
+    run(): Safe<T, E> {
+      return createChain(current(), options, replay, false, undefined, history);
+    },
+
+    *[Symbol.iterator]() {
+      return yield this;
     },
   };
 };
@@ -359,21 +1057,146 @@ const createChain = <Result extends SafeResult | Promise<SafeResult>, T = Extrac
  * Creates a Safe container from an existing value.
  *
  * @param value - The value to wrap
+ * @param options - Options that configure how the chain runs
  * @returns A Safe containing the value
  */
-export function safeValue<T>(value: T): Safe<T> {
-  return createChain(safeResult.ok(undefined)).map(() => value) as Safe<T>;
+export function safeValue<T, E extends Error = Error>(value: T, options?: SafeOptions): Safe<T, E> {
+  return createChain(safeResult.ok<undefined, E>(undefined), inheritOptions(options), undefined, false, () => value);
 }
 
 /**
  * Executes a function and wraps its result in a Safe.
  * If the function throws, the error is captured in the Safe.
  *
- * @param fn - Function to execute
+ * @param fn - Function to execute, receiving the {@link StepContext} like any other step
+ * @param options - Options that configure how the chain runs
  * @returns A Safe containing the function result or error
  */
-export function safeExec<T>(fn: () => T): Safe<T> {
-  return createChain(safeResult.ok(undefined)).map(() => fn()) as Safe<T>;
+export function safeExec<T, E extends Error = Error>(
+  fn: (context?: StepContext<E>) => T,
+  options?: SafeOptions
+): Safe<T, E> {
+  return createChain(safeResult.ok<undefined, E>(undefined), inheritOptions(options), undefined, false, fn);
+}
+
+/**
+ * Creates a lazy Safe: `fn` and every step appended to the chain are recorded, not executed.
+ * The chain runs when a terminal operation (`unwrap`, `match`, `orElse`, `isOk`) or `run` is called,
+ * and runs again with fresh execution on every such call — a reusable, deferred program.
+ *
+ * @param fn - Function to execute on each run
+ * @param options - Options that configure how the chain runs
+ * @returns A lazy Safe
+ *
+ * @example
+ * const loadUser = safe.lazy(() => fetchUser(id))
+ *   .map(user => user.name)
+ *   .recover(() => 'Anonymous');   // nothing has run yet
+ *
+ * await loadUser.unwrap();         // fetches
+ * await loadUser.unwrap();         // fetches again
+ */
+export function safeLazy<T, E extends Error = Error>(
+  fn: (context?: StepContext<E>) => T,
+  options?: SafeOptions
+): Safe<T, E> {
+  return createChain(
+    undefined as unknown as SafeResult<undefined, E>,
+    options,
+    () => safeResult.ok(undefined),
+    true,
+    fn
+  );
+}
+
+/**
+ * Creates a Safe from an existing Promise, without wrapping it in a thunk.
+ *
+ * @param promise - The Promise to wrap; a rejection becomes the error
+ * @param options - Options that configure how the chain runs
+ * @returns An async Safe of the resolved value
+ *
+ * @example
+ * safe.fromPromise(fetch(url)).map(res => res.json())
+ */
+export function safeFromPromise<T, E extends Error = Error>(
+  promise: PromiseLike<T>,
+  options?: SafeOptions
+): Safe<Promise<T>, E> {
+  return safeValue(Promise.resolve(promise), options) as Safe<Promise<T>, E>;
+}
+
+/**
+ * Creates a Safe from a Node-style callback API.
+ * The callback's first argument is the error (`null`/`undefined` on success), the second the value.
+ *
+ * @param fn - Function that starts the operation and passes it the callback
+ * @param options - Options that configure how the chain runs
+ * @returns An async Safe of the value passed to the callback
+ *
+ * @example
+ * safe.fromCallback<string>(cb => fs.readFile(path, 'utf8', cb))
+ */
+export function safeFromCallback<T, E extends Error = Error>(
+  fn: (callback: (error: unknown, value?: T) => void) => void,
+  options?: SafeOptions
+): Safe<Promise<T>, E> {
+  return safeExec(
+    () =>
+      new Promise<T>((resolve, reject) =>
+        fn((error, value) => (error === null || error === undefined ? resolve(value as T) : reject(error)))
+      ),
+    options
+  ) as Safe<Promise<T>, E>;
+}
+
+/**
+ * Creates a Safe from a `PromiseSettledResult`, e.g. an entry of `Promise.allSettled`.
+ *
+ * @param settled - The settled result; a `rejected` reason becomes the error
+ * @param options - Options that configure how the chain runs
+ * @returns A Safe of the fulfilled value
+ *
+ * @example
+ * const [user] = await Promise.allSettled([loadUser()]);
+ * safe.fromSettled(user).map(u => u.name)
+ */
+export function safeFromSettled<T, E extends Error = Error>(
+  settled: PromiseSettledResult<T>,
+  options?: SafeOptions
+): Safe<T, E> {
+  return createChain(safeResult.ok<undefined, E>(undefined), inheritOptions(options), undefined, false, () => {
+    if (settled.status === 'fulfilled') return settled.value;
+    throw settled.reason;
+  }) as Safe<T, E>;
+}
+
+/**
+ * Creates a Safe from a raw {@link SafeResult}, or a Promise of one.
+ *
+ * @param result - The result to continue from; its error is kept as is
+ * @param options - Options that configure how the chain runs
+ * @returns A Safe in the same state as the result
+ *
+ * @example
+ * safe.fromResult(safeResult.deserialize<User>(body)).map(u => u.name)
+ */
+export function safeFromResult<T, E extends Error = Error>(result: SafeResult<T, E>, options?: SafeOptions): Safe<T, E>;
+export function safeFromResult<T, E extends Error = Error>(
+  result: PromiseLike<SafeResult<T, E>>,
+  options?: SafeOptions
+): Safe<Promise<T>, E>;
+export function safeFromResult(
+  result: SafeResult<any, any> | PromiseLike<SafeResult<any, any>>,
+  options?: SafeOptions
+): Safe<any, any> {
+  const unwrap = (settled: SafeResult<any, any>) => {
+    if (settled.isOk) return settled.value;
+    throw keepError(settled.error);
+  };
+  return createChain(safeResult.ok(undefined), inheritOptions(options), undefined, false, () =>
+    isPromiseLike(result) ? Promise.resolve(result).then(unwrap) : unwrap(result)
+  );
 }
 
 /**
@@ -382,12 +1205,63 @@ export function safeExec<T>(fn: () => T): Safe<T> {
  * @returns A Safe containing undefined
  */
 export function safeEmpty(): Safe<undefined> {
-  return createChain(safeResult.ok(undefined));
+  return createChain(safeResult.ok(undefined), inheritOptions());
+}
+
+/**
+ * Runs a chain under a deadline.
+ * If the chain has not settled within `ms`, it fails with a {@link TimeoutError}.
+ *
+ * The deadline is carried by an `AbortSignal` that is passed to the factory and to every step callback.
+ * Chains created inside the factory or inside a step inherit it, so nested `flatMap` chains
+ * (and nested deadlines) only get the remaining time budget.
+ *
+ * @param ms - Time budget in milliseconds
+ * @param factory - Builds the chain, receiving the deadline signal
+ * @returns A Safe that fails with `TimeoutError` when the deadline is exceeded
+ *
+ * @example
+ * safe.deadline(2000, () =>
+ *   safe(() => loadUser(id))
+ *     .flatMap(user => loadOrg(user.orgId))   // inherits the remaining budget
+ *     .map((org, context) => fetch(org.url, { signal: context?.signal }))
+ * )
+ */
+export function safeDeadline<T, E extends Error = Error>(
+  ms: number,
+  factory: (signal: AbortSignal) => Safe<T, E>
+): Safe<T, E | TimeoutError> {
+  const controller = new AbortController();
+  const parent = ambientSignal;
+  const onParentAbort = () => controller.abort(parent!.reason);
+  const cancelTimer = clockOf().setTimeout(() => controller.abort(new TimeoutError(ms)), ms);
+  if (parent?.aborted) onParentAbort();
+  else parent?.addEventListener('abort', onParentAbort, { once: true });
+
+  const cleanup = () => {
+    cancelTimer();
+    parent?.removeEventListener('abort', onParentAbort);
+  };
+
+  const settled = createChain(safeResult.ok(undefined), { signal: controller.signal }, undefined, false, () =>
+    factory(controller.signal).unwrap()
+  ).match({
+    ok: (value) => {
+      cleanup();
+      return safeResult.ok(value);
+    },
+    err: (error) => {
+      cleanup();
+      return safeResult.fail(error);
+    },
+  });
+  // The deadline signal does not outlive the deadline itself
+  return createChain(settled) as Safe<T, E | TimeoutError>;
 }
 
 /**
  * Type for observe callback function.
  */
-type ObserveFunction<T = unknown> = Parameters<Safe<T>['observe']>[0];
+type ObserveFunction<T = unknown, E extends Error = Error> = Parameters<Safe<T, E>['observe']>[0];
 
 export type { SafeResult, ObserveFunction };
@@ -0,0 +1,140 @@
+import { config } from './config';
+import { isSkipped, StepKind } from './instrument';
+import { SafeResult, safeResult } from './result';
+import { isPromiseLike, timestamp } from './shared';
+
+/**
+ * What debug mode recorded about a step of a chain, as returned by `inspect()`.
+ */
+export type StepRecord = {
+  /** Position in the chain; the value or function the chain was created from is step `0` */
+  index: number;
+  kind: StepKind;
+  /** The label of a `context` step, or the name of a named pipe step */
+  label?: string;
+  /** `'skipped'` when the chain was on the track the step does not handle, e.g. `map` after a failure */
+  status: 'pending' | 'ran' | 'skipped';
+  /** The track the chain is on after the step */
+  outcome?: 'ok' | 'error';
+  /** The value after the step, when `outcome` is `'ok'`. It is the value itself, not a copy. */
+  value?: unknown;
+  /** The error after the step, when `outcome` is `'error'` */
+  error?: unknown;
+  /** Milliseconds from the start of the step until it settled */
+  duration?: number;
+  /** Where the step was attached (`file:line:column`), when call sites are captured */
+  callSite?: string;
+};
+
+export type ChainInspection = {
+  steps: StepRecord[];
+  /** The step the error of a failed chain started at */
+  failedAt?: StepRecord;
+};
+
+const location = (frame: string) => /([^\s(@]+:\d+:\d+)\)?$/.exec(frame.trim())?.[1];
+
+const directory = (file: string) => file.slice(0, Math.max(file.lastIndexOf('/'), file.lastIndexOf('\\')) + 1);
+
+/**
+ * Frames from this directory belong to ts-safe itself (the sources, or the bundle they were built into).
+ */
+const ownDirectory = (() => {
+  const file = new Error().stack?.split('\n').map(location).find(Boolean);
+  return file ? directory(file) : undefined;
+})();
+
+/**
+ * The location of the first frame outside ts-safe: the code that attached the step.
+ */
+const captureCallSite = (): string | undefined =>
+  new Error().stack
+    ?.split('\n')
+    .map(location)
+    .find((file) => file && (!ownDirectory || !file.startsWith(ownDirectory)));
+
+/**
+ * Creates the record of a step being attached at `index`, or `undefined` outside debug mode.
+ */
+export const attachStep = (kind: StepKind, label: string | undefined, index: number) => {
+  const { debug } = config;
+  if (!debug) return undefined;
+  const record: StepRecord = { index, kind, status: 'pending' };
+  if (label !== undefined) record.label = label;
+  if (typeof debug === 'object' && debug.callSites) record.callSite = captureCallSite();
+  return record;
+};
+
+/**
+ * Wraps the run of a step to fill its record. A chain that runs again (lazy or retried) records its latest run.
+ */
+export const recordStep = <C extends (prev: SafeResult<any, any>) => any>(record: StepRecord, run: C): C => {
+  return ((prev: SafeResult<any, any>) => {
+    const start = timestamp();
+    const settle = (result: SafeResult<any, any>) => {
+      record.status = isSkipped(record.kind, prev) ? 'skipped' : 'ran';
+      record.outcome = result.isOk ? 'ok' : 'error';
+      record.duration = timestamp() - start;
+      if (result.isOk) {
+        record.value = result.value;
+        delete record.error;
+      } else {
+        record.error = result.error;
+        delete record.value;
+      }
+    };
+    let value: unknown;
+    try {
+      value = run(prev);
+    } catch (thrown) {
+      const failed = safeResult.fail(thrown);
+      settle(failed);
+      throw failed.error;
+    }
+    if (!isPromiseLike(value)) {
+      settle(safeResult.ok(value));
+      return value;
+    }
+    return value.then(
+      (settled) => {
+        settle(safeResult.ok(settled));
+        return settled;
+      },
+      (thrown) => {
+        const failed = safeResult.fail(thrown);
+        settle(failed);
+        throw failed.error;
+      }
+    );
+  }) as C;
+};
+
+/**
+ * Snapshots the records of a chain and finds the step its error started at.
+ */
+export const inspectSteps = (records: StepRecord[]): ChainInspection => {
+  const steps = records.map((record) => ({ ...record }));
+  let failedAt: StepRecord | undefined;
+  let ok = true;
+  for (const step of steps) {
+    if (ok && step.outcome === 'error') failedAt = step;
+    ok = step.outcome !== 'error';
+  }
+  return failedAt && !ok ? { steps, failedAt } : { steps };
+};
+
+/**
+ * Describes a recorded step, e.g. for error reports.
+ *
+ * @param step - A step from {@link ChainInspection}
+ * @returns The kind, label, position and call site of the step
+ *
+ * @example
+ * const { failedAt } = await chain.inspect();
+ * if (failedAt) log.error(`failed in ${formatStep(failedAt)}`);
+ * // failed in map #3 attached at /app/src/user-service.ts:42:6
+ */
+export const formatStep = (step: StepRecord): string => {
+  const name = step.label === undefined ? `${step.kind} #${step.index}` : `${step.kind} "${step.label}" #${step.index}`;
+  return step.callSite ? `${name} attached at ${step.callSite}` : name;
+};
@@ -0,0 +1,202 @@
+import type { SafeResult } from './result';
+
+/**
+ * Error produced by `safe.any` when every input Safe fails.
+ * Holds each failure in input order.
+ *
+ * @template E - The failure type of the combined Safes
+ */
+export class SafeAggregateError<E = Error> extends Error {
+  readonly errors: E[];
+
+  constructor(errors: E[], message = 'All Safes failed') {
+    super(message);
+    this.name = 'SafeAggregateError';
+    this.errors = errors;
+  }
+}
+
+/**
+ * Error produced by `safe.traverse` when items fail.
+ * `errors` holds the failures in input order; `results` holds the outcome of every item,
+ * so the values that succeeded are still available (`undefined` for items that never settled).
+ *
+ * @template T - The value type of the items
+ * @template E - The failure type of the items
+ */
+export class TraverseError<T = unknown, E extends Error = Error> extends SafeAggregateError<E> {
+  readonly results: (SafeResult<T, E> | undefined)[];
+
+  constructor(results: (SafeResult<T, E> | undefined)[], message?: string) {
+    const errors = results.flatMap((result) => (result && !result.isOk ? [result.error] : []));
+    super(errors, message ?? `${errors.length} of ${results.length} items failed`);
+    this.name = 'TraverseError';
+    this.results = results;
+  }
+}
+
+/**
+ * A single failed check reported by a {@link ValidationError}.
+ * `path` locates the checked field (empty for the value itself).
+ */
+export type ValidationIssue = {
+  message: string;
+  path: PropertyKey[];
+};
+
+const formatIssue = (issue: ValidationIssue): string =>
+  issue.path.length ? `${issue.path.map(String).join('.')}: ${issue.message}` : issue.message;
+
+/**
+ * Error produced by accumulating validation (`validateAll`, `safe.validate`).
+ * Holds every failed check instead of only the first one.
+ */
+export class ValidationError extends Error {
+  readonly issues: ValidationIssue[];
+
+  constructor(issues: ValidationIssue[], message = `Validation failed: ${issues.map(formatIssue).join('; ')}`) {
+    super(message);
+    this.name = 'ValidationError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Error a chain settles into when its `AbortSignal` aborts.
+ * The signal's `reason` is kept on the error.
+ */
+export class AbortError extends Error {
+  readonly reason: unknown;
+
+  constructor(reason?: unknown, message = 'The operation was aborted') {
+    super(message);
+    this.name = 'AbortError';
+    this.reason = reason;
+  }
+}
+
+/**
+ * Error a chain settles into when it exceeds its time budget.
+ */
+export class TimeoutError extends Error {
+  readonly ms: number;
+
+  constructor(ms: number, message = `Timed out after ${ms}ms`) {
+    super(message);
+    this.name = 'TimeoutError';
+    this.ms = ms;
+  }
+}
+
+/**
+ * The error an aborted signal settles into. Deadlines abort their signal with a `TimeoutError`, which is surfaced as is.
+ */
+export const toAbortError = (signal: AbortSignal): AbortError | TimeoutError =>
+  signal.reason instanceof TimeoutError ? signal.reason : new AbortError(signal.reason);
+
+/**
+ * Error produced by the `retry` utility when it gives up.
+ * Holds the error of every attempt in order; the last one is also the `cause`.
+ *
+ * @template E - The failure type of the attempts
+ */
+export class RetryError<E = Error> extends SafeAggregateError<E> {
+  readonly cause: E;
+
+  constructor(
+    errors: E[],
+    message = `Failed after ${errors.length} attempt(s): ${messageOf(errors[errors.length - 1])}`
+  ) {
+    super(errors, message);
+    this.name = 'RetryError';
+    this.cause = errors[errors.length - 1];
+  }
+}
+
+const messageOf = (error: unknown): string => (error instanceof Error ? error.message : String(error));
+
+/**
+ * Error a chain settles into when it fails before a `.context(label)` step.
+ * Carries the breadcrumb trail of labels (outermost first) and keeps the original error as `cause`.
+ *
+ * @template E - The type of the original error
+ */
+export class ContextError<E = Error> extends Error {
+  readonly trail: string[];
+  readonly cause: E;
+
+  constructor(trail: string[], cause: E) {
+    super([...trail, messageOf(cause)].join(': '));
+    this.name = 'ContextError';
+    this.trail = trail;
+    this.cause = cause;
+  }
+
+  /**
+   * Adds an outer label, keeping the original error as `cause`.
+   */
+  static wrap<E>(label: string, error: E | ContextError<E>): ContextError<E> {
+    if (error instanceof ContextError) return new ContextError([label, ...error.trail], error.cause as E);
+    return new ContextError([label], error);
+  }
+}
+
+/**
+ * Locates a named step: its name and its position (from `0`) in the pipe.
+ */
+export type PipeStepLocation = {
+  name: string;
+  index: number;
+};
+
+/**
+ * Error a pipe settles into when one of its named steps fails.
+ * `steps` locates the failing step from the outermost pipe in; its names are the `trail`.
+ *
+ * @template E - The type of the original error
+ */
+export class PipeError<E = Error> extends ContextError<E> {
+  readonly steps: PipeStepLocation[];
+
+  constructor(steps: PipeStepLocation[], cause: E) {
+    super(
+      steps.map((step) => step.name),
+      cause
+    );
+    this.name = 'PipeError';
+    this.steps = steps;
+  }
+
+  /**
+   * Adds the step of an outer pipe, keeping the original error as `cause`.
+   */
+  static at<E>(step: PipeStepLocation, error: E | PipeError<E>): PipeError<E> {
+    if (error instanceof PipeError) return new PipeError([step, ...error.steps], error.cause as E);
+    return new PipeError([step], error);
+  }
+}
+
+/**
+ * Prints the breadcrumb trail of an error, following its `cause` chain.
+ *
+ * @param error - Any error, typically a {@link ContextError}
+ * @returns One line per label or error, outermost first
+ *
+ * @example
+ * formatErrorTrail(error)
+ * // loading user profile
+ * //   caused by: parsing response
+ * //   caused by: SyntaxError: Unexpected token
+ */
+export const formatErrorTrail = (error: unknown): string => {
+  const lines: string[] = [];
+  const seen = new Set<unknown>();
+  let current = error;
+  while (current !== undefined && !seen.has(current)) {
+    seen.add(current);
+    if (current instanceof ContextError) lines.push(...current.trail);
+    else lines.push(current instanceof Error ? `${current.name}: ${current.message}` : String(current));
+    current = (current as { cause?: unknown } | null)?.cause;
+  }
+  return lines.join('\n  caused by: ');
+};
@@ -0,0 +1,46 @@
+import { safeExec, Safe, SafeOptions } from './core';
+
+type LiftedSignature<This, A extends any[], R, E extends Error> = (this: This, ...args: A) => Safe<R, E>;
+
+/**
+ * Lifts every call signature of `F` (up to four overloads) to return a Safe.
+ * Identical signatures collapse, so a plain function keeps a single signature.
+ */
+export type SafeFunction<F extends (...args: any[]) => any, E extends Error = Error> = F extends {
+  (this: infer T1, ...args: infer A1): infer R1;
+  (this: infer T2, ...args: infer A2): infer R2;
+  (this: infer T3, ...args: infer A3): infer R3;
+  (this: infer T4, ...args: infer A4): infer R4;
+}
+  ? LiftedSignature<T1, A1, R1, E> &
+      LiftedSignature<T2, A2, R2, E> &
+      LiftedSignature<T3, A3, R3, E> &
+      LiftedSignature<T4, A4, R4, E>
+  : never;
+
+/**
+ * Lifts a function into one that returns a Safe instead of throwing.
+ *
+ * - Keeps the parameter list, including overloads (type parameters of generic functions widen to their constraints)
+ * - Async functions produce async Safes
+ * - `this` is forwarded, so lifted methods can be assigned back onto their object
+ *
+ * @param fn - The function to lift
+ * @param options - Options that configure how each returned chain runs
+ * @returns A function with the same parameters, returning a Safe of the result
+ *
+ * @example
+ * const parseJson = safe.fn(JSON.parse);
+ * parseJson('{"a":1}').unwrap()  // { a: 1 }
+ *
+ * const loadUser = safe.fn(async (id: number) => db.users.find(id));
+ * loadUser(1)                    // Safe<Promise<User>>
+ */
+export function safeFn<F extends (...args: any[]) => any, E extends Error = Error>(
+  fn: F,
+  options?: SafeOptions
+): SafeFunction<F, E> {
+  return function (this: unknown, ...args: unknown[]) {
+    return safeExec(() => fn.apply(this, args), options);
+  } as SafeFunction<F, E>;
+}
@@ -0,0 +1,83 @@
+import { safeExec, Safe, SafeOptions, StepContext } from './core';
+import type { AnySafe, SafeErrorOf, SafeRawValueOf } from './combine';
+import { SafeResult, safeResult } from './result';
+import { isPromiseLike } from './shared';
+
+type SafeIterator = Iterator<AnySafe, unknown, unknown> | AsyncIterator<AnySafe, unknown, unknown>;
+
+type IterationStep = IteratorResult<AnySafe, unknown>;
+
+type HasAsyncYield<Y> = [Extract<SafeRawValueOf<Y>, PromiseLike<any>>] extends [never] ? false : true;
+
+/**
+ * Resumes the generator with the value of the settled Safe,
+ * or closes it (running its `finally` blocks) and rethrows the error.
+ */
+const resume = (iterator: SafeIterator, result: SafeResult<any, any>): IterationStep | Promise<IterationStep> => {
+  if (result.isOk) return iterator.next(result.value);
+  const closed = iterator.return?.(undefined);
+  if (isPromiseLike(closed))
+    return closed.then(() => {
+      throw result.error;
+    });
+  throw result.error;
+};
+
+/**
+ * Drives the generator until it returns, staying synchronous as long as every yielded Safe is.
+ */
+const advance = (iterator: SafeIterator, step: IterationStep | Promise<IterationStep>): unknown => {
+  for (;;) {
+    if (isPromiseLike(step)) return step.then((settled) => advance(iterator, settled));
+    if (step.done) return step.value;
+    const result = step.value.match({
+      ok: (value) => safeResult.ok(value),
+      err: (error) => safeResult.fail(error),
+    });
+    if (isPromiseLike(result)) return result.then((settled) => advance(iterator, resume(iterator, settled)));
+    step = resume(iterator, result);
+  }
+};
+
+/**
+ * Runs a generator as a Safe chain. Each `yield*` on a Safe evaluates to its success value;
+ * the first failed Safe stops the generator and becomes the error of the chain.
+ *
+ * - Sync generators produce a sync Safe unless a yielded Safe is async
+ * - Async generators always produce an async Safe
+ * - The failure type is the union of the yielded Safes' failure types
+ *
+ * @param fn - Generator function, called once with the step context
+ * @param options - Options that configure how the chain runs
+ * @returns A Safe of the generator's return value
+ *
+ * @example
+ * safe.gen(function* () {
+ *   const user = yield* loadUser(id);
+ *   const org = yield* loadOrg(user.orgId);
+ *   return { user, org };
+ * });
+ *
+ * safe.gen(async function* () {
+ *   const user = yield* loadUser(id);
+ *   const avatar = await fetchAvatar(user);
+ *   return { user, avatar };
+ * });
+ */
+export function safeGen<Y extends AnySafe = never, R = void>(
+  fn: (context?: StepContext) => Generator<Y, R, any>,
+  options?: SafeOptions
+): Safe<HasAsyncYield<Y> extends true ? Promise<Awaited<R>> : R, SafeErrorOf<Y>>;
+export function safeGen<Y extends AnySafe = never, R = void>(
+  fn: (context?: StepContext) => AsyncGenerator<Y, R, any>,
+  options?: SafeOptions
+): Safe<Promise<R>, SafeErrorOf<Y>>;
+export function safeGen(
+  fn: (context?: StepContext) => Generator<AnySafe, unknown, any> | AsyncGenerator<AnySafe, unknown, any>,
+  options?: SafeOptions
+): AnySafe {
+  return safeExec((context) => {
+    const iterator = fn(context);
+    return advance(iterator, iterator.next());
+  }, options);
+}
@@ -1,13 +1,58 @@
-import { safeEmpty, safeExec, safeValue, type ObserveFunction, type Safe } from './core';
+import { safeAll, safeAllSettled, safeAny, safeRace, safeTraverse } from './combine';
+import {
+  safeDeadline,
+  safeEmpty,
+  safeExec,
+  safeFromCallback,
+  safeFromPromise,
+  safeFromResult,
+  safeFromSettled,
+  safeLazy,
+  safeValue,
+  type ObserveFunction,
+  type Safe,
+  type SafeOptions,
+  type StepContext,
+} from './core';
+import { configure } from './config';
+import { safeFn } from './fn';
+import { safeGen } from './gen';
+import { instrument } from './instrument';
 import { safePipe } from './pipe';
 import { isFunction } from './shared';
-export type { SafeResult } from './result';
+import { safeStream } from './stream';
+import { safeParse, safeParseAsync, safeValidate } from './validate';
+export {
+  AbortError,
+  ContextError,
+  formatErrorTrail,
+  PipeError,
+  RetryError,
+  SafeAggregateError,
+  TimeoutError,
+  TraverseError,
+  ValidationError,
+  type PipeStepLocation,
+  type ValidationIssue,
+} from './errors';
+export { branch, switchOn, unless, when } from './branch';
+export { step } from './pipe';
+export type { TraverseMode, TraverseOptions } from './combine';
+export { formatStep, type ChainInspection, type StepRecord } from './debug';
+export { safeResult } from './result';
+export type { ErrorNormalizer, SafeConfig } from './config';
+export type { SafeFunction } from './fn';
+export type { InstrumentationHooks, StepEndInfo, StepInfo, StepKind, StepRecoverInfo } from './instrument';
+export type { InferSchemaOutput, StandardSchemaIssue, StandardSchemaResult, StandardSchemaV1 } from './standard-schema';
+export type { SafeStream, StreamErrorPolicy, StreamOptions } from './stream';
+export type { ErrorRegistry, SafeResult, SerializedError, SerializedSafeResult, SerializeOptions } from './result';
 export * from './util';
 
 /**
  * Creates a Safe container for type-safe error handling.
  *
  * @param init - Optional value or function that returns a value
+ * @param options - Options that configure how the chain runs (e.g. an `AbortSignal`)
  * @returns A Safe containing the value or function result
  *
  * @example
@@ -19,16 +64,44 @@ export * from './util';
  *
  * // Create an empty Safe
  * safe()                          // Safe<undefined>
+ *
+ * // Declare the failure type
+ * safe<User, NotFoundError>(() => findUser(id))   // Safe<User, NotFoundError>
+ *
+ * // Cancel the chain with an AbortSignal
+ * safe((context) => fetch(url, { signal: context?.signal }), { signal })
  */
-function safe<T>(init: () => T): Safe<T>;
-function safe<T>(init: T): Safe<T>;
+function safe<T, E extends Error = Error>(init: (context?: StepContext<E>) => T, options?: SafeOptions): Safe<T, E>;
+function safe<T, E extends Error = Error>(init: T, options?: SafeOptions): Safe<T, E>;
 function safe(): Safe<undefined>;
-function safe<T>(init?: T | (() => T)): Safe<T> {
-  if (init === undefined) return safeEmpty() as Safe<T>;
-  if (isFunction(init)) return safeExec(init);
-  return safeValue(init);
+function safe<T, E extends Error = Error>(
+  init?: T | ((context?: StepContext<E>) => T),
+  options?: SafeOptions
+): Safe<T, E> {
+  if (init === undefined && !options) return safeEmpty() as Safe<T, E>;
+  if (isFunction(init)) return safeExec<T, E>(init, options);
+  return safeValue<T, E>(init as T, options);
 }
 
 safe.pipe = safePipe;
+safe.all = safeAll;
+safe.allSettled = safeAllSettled;
+safe.any = safeAny;
+safe.race = safeRace;
+safe.traverse = safeTraverse;
+safe.deadline = safeDeadline;
+safe.lazy = safeLazy;
+safe.gen = safeGen;
+safe.fromPromise = safeFromPromise;
+safe.fromCallback = safeFromCallback;
+safe.fromSettled = safeFromSettled;
+safe.fromResult = safeFromResult;
+safe.fn = safeFn;
+safe.stream = safeStream;
+safe.validate = safeValidate;
+safe.parse = safeParse;
+safe.parseAsync = safeParseAsync;
+safe.configure = configure;
+safe.instrument = instrument;
 
-export { safePipe, safe, Safe, ObserveFunction };
+export { safePipe, safe, Safe, SafeOptions, StepContext, ObserveFunction };
@@ -0,0 +1,165 @@
+import { SafeResult, safeResult } from './result';
+import { isPromiseLike, timestamp } from './shared';
+
+/**
+ * The chain method a step was created by, or `'source'` for the function or value a chain starts from.
+ */
+export type StepKind =
+  | 'source'
+  | 'map'
+  | 'flatMap'
+  | 'effect'
+  | 'recover'
+  | 'mapError'
+  | 'context'
+  | 'ensure'
+  | 'filter'
+  | 'parse'
+  | 'parseAsync'
+  | 'observe'
+  | 'observeOk'
+  | 'observeError'
+  | 'orElse';
+
+export type StepInfo = {
+  kind: StepKind;
+  /** The label of a `context` step, or the name of a named pipe step */
+  label?: string;
+};
+
+export type StepEndInfo = StepInfo & {
+  /** Milliseconds from the start of the step until it settled */
+  duration: number;
+  outcome: 'ok' | 'error';
+  /** The error the step settled with, when `outcome` is `'error'` */
+  error?: unknown;
+};
+
+export type StepRecoverInfo = StepEndInfo & {
+  /** The error the step recovered from */
+  recovered: unknown;
+};
+
+/**
+ * Hooks called around chain steps. Steps that are skipped (e.g. `map` on a failed chain) are not reported.
+ */
+export type InstrumentationHooks = {
+  /** Called when a step starts running */
+  onStepStart?: (step: StepInfo) => void;
+  /** Called when a step settles */
+  onStepEnd?: (step: StepEndInfo) => void;
+  /** Called when a step turns a successful chain into a failed one */
+  onError?: (step: StepEndInfo) => void;
+  /** Called when a step turns a failed chain into a successful one */
+  onRecover?: (step: StepRecoverInfo) => void;
+};
+
+const registry: InstrumentationHooks[] = [];
+
+const stepLabel = Symbol('stepLabel');
+
+/**
+ * Attaches a label to a `map` callback, reported with the step it becomes.
+ */
+export const labelStep = <F extends (...args: any[]) => any>(fn: F, label: string): F =>
+  Object.assign(fn, { [stepLabel]: label });
+
+/**
+ * The label attached to a callback with `labelStep`.
+ */
+export const labelOf = (fn: unknown): string | undefined => (fn as { [stepLabel]?: string })[stepLabel];
+
+/**
+ * Steps that only run on one track; the others run on both.
+ */
+const okTrack: StepKind[] = ['map', 'flatMap', 'effect', 'ensure', 'filter', 'parse', 'parseAsync', 'observeOk'];
+const errorTrack: StepKind[] = ['recover', 'mapError', 'context', 'observeError'];
+
+/**
+ * Whether a step of `kind` passes `prev` through without running its callback.
+ */
+export const isSkipped = (kind: StepKind, prev: SafeResult<any, any>): boolean =>
+  prev.isOk ? errorTrack.includes(kind) : okTrack.includes(kind);
+
+const emit = <K extends keyof InstrumentationHooks>(
+  name: K,
+  info: Parameters<NonNullable<InstrumentationHooks[K]>>[0]
+) => {
+  for (const hooks of registry) {
+    try {
+      (hooks[name] as ((info: unknown) => void) | undefined)?.(info);
+    } catch {
+      // Errors are intentionally ignored in hooks
+    }
+  }
+};
+
+/**
+ * Registers instrumentation hooks for every chain.
+ *
+ * @param hooks - The hooks to call around each step
+ * @returns A function that unregisters the hooks
+ *
+ * @example
+ * const stop = safe.instrument({
+ *   onStepEnd: ({ kind, label, duration, outcome }) => span.addEvent(kind, { label, duration, outcome }),
+ * });
+ */
+export const instrument = (hooks: InstrumentationHooks): (() => void) => {
+  registry.push(hooks);
+  return () => {
+    const index = registry.indexOf(hooks);
+    if (index !== -1) registry.splice(index, 1);
+  };
+};
+
+/**
+ * Wraps a step callback to report it to the registered hooks.
+ * Returns the callback itself when no hooks are registered, so uninstrumented chains pay nothing.
+ */
+export const instrumentStep = <C extends (prev: SafeResult<any, any>, ...args: any[]) => any>(
+  kind: StepKind,
+  cb: C,
+  label?: string
+): C => {
+  if (!registry.length) return cb;
+  return ((prev: SafeResult<any, any>, ...args: any[]) => {
+    if (isSkipped(kind, prev)) return cb(prev, ...args);
+
+    const info: StepInfo = label === undefined ? { kind } : { kind, label };
+    const start = timestamp();
+    const settle = (outcome: 'ok' | 'error', error?: unknown) => {
+      const end: StepEndInfo = { ...info, duration: timestamp() - start, outcome };
+      if (outcome === 'error') end.error = error;
+      emit('onStepEnd', end);
+      if (prev.isOk && outcome === 'error') emit('onError', end);
+      if (!prev.isOk && outcome === 'ok') emit('onRecover', { ...end, recovered: prev.error });
+    };
+
+    emit('onStepStart', info);
+    let result: unknown;
+    try {
+      result = cb(prev, ...args);
+    } catch (thrown) {
+      // Normalized here so hooks see the chain's error; normalizing it again keeps it as is
+      const { error } = safeResult.fail(thrown);
+      settle('error', error);
+      throw error;
+    }
+    if (!isPromiseLike(result)) {
+      settle('ok');
+      return result;
+    }
+    return result.then(
+      (value) => {
+        settle('ok');
+        return value;
+      },
+      (thrown) => {
+        const { error } = safeResult.fail(thrown);
+        settle('error', error);
+        throw error;
+      }
+    );
+  }) as C;
+};
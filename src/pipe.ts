@@ -1,4 +1,8 @@
-import { safeValue, Safe } from './core';
+import { safeExec, safeValue, Safe } from './core';
+import { PipeError, PipeStepLocation } from './errors';
+import { labelStep } from './instrument';
+import { SafeResult, safeResult } from './result';
+import { isFunction, isPromiseLike } from './shared';
 
 type NonDistributive<T> = [T] extends [any] ? T : never;
 
@@ -9,60 +13,447 @@ type HasPromise<T> =
       ? false
       : true;
 
-type SafeCheckPromise<T, U> = HasPromise<U> extends true ? Safe<Promise<Awaited<T>>> : Safe<T>;
+type SafeCheckPromise<T, U, E extends Error = Error> =
+  HasPromise<U> extends true ? Safe<Promise<Awaited<T>>, E> : Safe<T, E>;
 
 type SafeMap<A, B> = (input: A extends PromiseLike<any> ? Awaited<A> : A) => B;
 
-export function safePipe<Input, A>(ab: SafeMap<Input, A>): (input: Input) => SafeCheckPromise<A, Input>;
+type AnyStep = (input: any) => any;
+
+/**
+ * The value a step passes on: a returned Safe or SafeResult is flattened into its value.
+ */
+export type StepValue<R> = [R] extends [never]
+  ? never
+  : [R] extends [SafeResult<infer U, Error>]
+    ? U
+    : R extends Safe<infer U, any>
+      ? U
+      : R;
+
+/**
+ * The failures a step adds to the pipe by returning a Safe or SafeResult.
+ */
+type StepError<R> = [R] extends [never]
+  ? never
+  : [R] extends [SafeResult<any, infer F extends Error>]
+    ? F
+    : R extends Safe<any, infer F>
+      ? F
+      : never;
+
+/**
+ * The Safe a pipe returns, given the input and what each step returns.
+ * It is async when the input or any step before the last is.
+ */
+type SafePipeResult<Input, Returns extends unknown[]> = Returns extends [...infer Init, infer Last]
+  ? SafeCheckPromise<
+      StepValue<Last>,
+      Input | { [K in keyof Init]: StepValue<Init[K]> }[number],
+      Error | { [K in keyof Returns]: StepError<Returns[K]> }[number]
+    >
+  : never;
+
+/**
+ * Each step typed to accept what the previous one passes on, so a mismatch is reported at the step.
+ */
+type SafePipeSteps<Prev, Steps extends AnyStep[]> = Steps extends [
+  infer S extends AnyStep,
+  ...infer Rest extends AnyStep[],
+]
+  ? [(input: Awaited<Prev>) => ReturnType<S>, ...SafePipeSteps<StepValue<ReturnType<S>>, Rest>]
+  : [];
+
+/**
+ * What a named step returns: its failures are wrapped in a `PipeError`, which names the step.
+ */
+type NamedStepResult<R> = Safe<StepValue<R>, PipeError<CauseOf<Error | StepError<R>>>>;
+
+type CauseOf<E> = E extends PipeError<infer C> ? C : E;
+
+type StepReturns<Steps extends AnyStep[]> = { [K in keyof Steps]: ReturnType<Steps[K]> };
+
+/**
+ * Composes steps into a function that runs them on a Safe chain.
+ * A step returning a Safe or a SafeResult is flattened, like `flatMap`, and its failures join the pipe's.
+ *
+ * Up to twenty steps are inferred from each other, so their parameters need no annotations.
+ * TypeScript can only type a step's parameter from the previous step through a type parameter per step,
+ * so longer pipes are accepted when every step's parameter is annotated.
+ *
+ * @example
+ * const loadUsername = safePipe(
+ *   (id: number) => safe(() => fetchUser(id)),   // Safe<Promise<User>> → User
+ *   user => user.name,
+ *   name => name.toUpperCase()
+ * );                                              // (input: number) => Safe<Promise<string>>
+ */
+export function safePipe<Input, A>(a: (input: Input) => A): (input: Input) => SafePipeResult<Input, [A]>;
 
 export function safePipe<Input, A, B>(
-  a: SafeMap<Input, A>,
-  b: SafeMap<A, B>
-): (input: Input) => SafeCheckPromise<B, A | Input>;
+  a: (input: Input) => A,
+  b: SafeMap<StepValue<A>, B>
+): (input: Input) => SafePipeResult<Input, [A, B]>;
 
 export function safePipe<Input, A, B, C>(
-  a: SafeMap<Input, A>,
-  b: SafeMap<A, B>,
-  c: SafeMap<B, C>
-): (input: Input) => SafeCheckPromise<C, A | B | Input>;
+  a: (input: Input) => A,
+  b: SafeMap<StepValue<A>, B>,
+  c: SafeMap<StepValue<B>, C>
+): (input: Input) => SafePipeResult<Input, [A, B, C]>;
 
 export function safePipe<Input, A, B, C, D>(
-  a: SafeMap<Input, A>,
-  b: SafeMap<A, B>,
-  c: SafeMap<B, C>,
-  d: SafeMap<C, D>
-): (input: Input) => SafeCheckPromise<D, A | B | C | Input>;
+  a: (input: Input) => A,
+  b: SafeMap<StepValue<A>, B>,
+  c: SafeMap<StepValue<B>, C>,
+  d: SafeMap<StepValue<C>, D>
+): (input: Input) => SafePipeResult<Input, [A, B, C, D]>;
 
 export function safePipe<Input, A, B, C, D, E>(
-  a: SafeMap<Input, A>,
-  b: SafeMap<A, B>,
-  c: SafeMap<B, C>,
-  d: SafeMap<C, D>,
-  e: SafeMap<D, E>
-): (input: Input) => SafeCheckPromise<E, A | B | C | D | Input>;
+  a: (input: Input) => A,
+  b: SafeMap<StepValue<A>, B>,
+  c: SafeMap<StepValue<B>, C>,
+  d: SafeMap<StepValue<C>, D>,
+  e: SafeMap<StepValue<D>, E>
+): (input: Input) => SafePipeResult<Input, [A, B, C, D, E]>;
 
 export function safePipe<Input, A, B, C, D, E, F>(
-  a: SafeMap<Input, A>,
-  b: SafeMap<A, B>,
-  c: SafeMap<B, C>,
-  d: SafeMap<C, D>,
-  e: SafeMap<D, E>,
-  f: SafeMap<E, F>
-): (input: Input) => SafeCheckPromise<F, A | B | C | D | E | Input>;
+  a: (input: Input) => A,
+  b: SafeMap<StepValue<A>, B>,
+  c: SafeMap<StepValue<B>, C>,
+  d: SafeMap<StepValue<C>, D>,
+  e: SafeMap<StepValue<D>, E>,
+  f: SafeMap<StepValue<E>, F>
+): (input: Input) => SafePipeResult<Input, [A, B, C, D, E, F]>;
 
 export function safePipe<Input, A, B, C, D, E, F, G>(
-  a: SafeMap<Input, A>,
-  b: SafeMap<A, B>,
-  c: SafeMap<B, C>,
-  d: SafeMap<C, D>,
-  e: SafeMap<D, E>,
-  f: SafeMap<E, F>,
-  g: SafeMap<F, G>
-): (input: Input) => SafeCheckPromise<G, A | B | C | D | E | F | Input>;
-
-export function safePipe(...transformers: Array<(input: any) => Safe<any>>): (input: any) => Safe<any> {
+  a: (input: Input) => A,
+  b: SafeMap<StepValue<A>, B>,
+  c: SafeMap<StepValue<B>, C>,
+  d: SafeMap<StepValue<C>, D>,
+  e: SafeMap<StepValue<D>, E>,
+  f: SafeMap<StepValue<E>, F>,
+  g: SafeMap<StepValue<F>, G>
+): (input: Input) => SafePipeResult<Input, [A, B, C, D, E, F, G]>;
+
+export function safePipe<Input, A, B, C, D, E, F, G, H>(
+  a: (input: Input) => A,
+  b: SafeMap<StepValue<A>, B>,
+  c: SafeMap<StepValue<B>, C>,
+  d: SafeMap<StepValue<C>, D>,
+  e: SafeMap<StepValue<D>, E>,
+  f: SafeMap<StepValue<E>, F>,
+  g: SafeMap<StepValue<F>, G>,
+  h: SafeMap<StepValue<G>, H>
+): (input: Input) => SafePipeResult<Input, [A, B, C, D, E, F, G, H]>;
+
+export function safePipe<Input, A, B, C, D, E, F, G, H, I>(
+  a: (input: Input) => A,
+  b: SafeMap<StepValue<A>, B>,
+  c: SafeMap<StepValue<B>, C>,
+  d: SafeMap<StepValue<C>, D>,
+  e: SafeMap<StepValue<D>, E>,
+  f: SafeMap<StepValue<E>, F>,
+  g: SafeMap<StepValue<F>, G>,
+  h: SafeMap<StepValue<G>, H>,
+  i: SafeMap<StepValue<H>, I>
+): (input: Input) => SafePipeResult<Input, [A, B, C, D, E, F, G, H, I]>;
+
+export function safePipe<Input, A, B, C, D, E, F, G, H, I, J>(
+  a: (input: Input) => A,
+  b: SafeMap<StepValue<A>, B>,
+  c: SafeMap<StepValue<B>, C>,
+  d: SafeMap<StepValue<C>, D>,
+  e: SafeMap<StepValue<D>, E>,
+  f: SafeMap<StepValue<E>, F>,
+  g: SafeMap<StepValue<F>, G>,
+  h: SafeMap<StepValue<G>, H>,
+  i: SafeMap<StepValue<H>, I>,
+  j: SafeMap<StepValue<I>, J>
+): (input: Input) => SafePipeResult<Input, [A, B, C, D, E, F, G, H, I, J]>;
+
+export function safePipe<Input, A, B, C, D, E, F, G, H, I, J, K>(
+  a: (input: Input) => A,
+  b: SafeMap<StepValue<A>, B>,
+  c: SafeMap<StepValue<B>, C>,
+  d: SafeMap<StepValue<C>, D>,
+  e: SafeMap<StepValue<D>, E>,
+  f: SafeMap<StepValue<E>, F>,
+  g: SafeMap<StepValue<F>, G>,
+  h: SafeMap<StepValue<G>, H>,
+  i: SafeMap<StepValue<H>, I>,
+  j: SafeMap<StepValue<I>, J>,
+  k: SafeMap<StepValue<J>, K>
+): (input: Input) => SafePipeResult<Input, [A, B, C, D, E, F, G, H, I, J, K]>;
+
+export function safePipe<Input, A, B, C, D, E, F, G, H, I, J, K, L>(
+  a: (input: Input) => A,
+  b: SafeMap<StepValue<A>, B>,
+  c: SafeMap<StepValue<B>, C>,
+  d: SafeMap<StepValue<C>, D>,
+  e: SafeMap<StepValue<D>, E>,
+  f: SafeMap<StepValue<E>, F>,
+  g: SafeMap<StepValue<F>, G>,
+  h: SafeMap<StepValue<G>, H>,
+  i: SafeMap<StepValue<H>, I>,
+  j: SafeMap<StepValue<I>, J>,
+  k: SafeMap<StepValue<J>, K>,
+  l: SafeMap<StepValue<K>, L>
+): (input: Input) => SafePipeResult<Input, [A, B, C, D, E, F, G, H, I, J, K, L]>;
+
+export function safePipe<Input, A, B, C, D, E, F, G, H, I, J, K, L, M>(
+  a: (input: Input) => A,
+  b: SafeMap<StepValue<A>, B>,
+  c: SafeMap<StepValue<B>, C>,
+  d: SafeMap<StepValue<C>, D>,
+  e: SafeMap<StepValue<D>, E>,
+  f: SafeMap<StepValue<E>, F>,
+  g: SafeMap<StepValue<F>, G>,
+  h: SafeMap<StepValue<G>, H>,
+  i: SafeMap<StepValue<H>, I>,
+  j: SafeMap<StepValue<I>, J>,
+  k: SafeMap<StepValue<J>, K>,
+  l: SafeMap<StepValue<K>, L>,
+  m: SafeMap<StepValue<L>, M>
+): (input: Input) => SafePipeResult<Input, [A, B, C, D, E, F, G, H, I, J, K, L, M]>;
+
+export function safePipe<Input, A, B, C, D, E, F, G, H, I, J, K, L, M, N>(
+  a: (input: Input) => A,
+  b: SafeMap<StepValue<A>, B>,
+  c: SafeMap<StepValue<B>, C>,
+  d: SafeMap<StepValue<C>, D>,
+  e: SafeMap<StepValue<D>, E>,
+  f: SafeMap<StepValue<E>, F>,
+  g: SafeMap<StepValue<F>, G>,
+  h: SafeMap<StepValue<G>, H>,
+  i: SafeMap<StepValue<H>, I>,
+  j: SafeMap<StepValue<I>, J>,
+  k: SafeMap<StepValue<J>, K>,
+  l: SafeMap<StepValue<K>, L>,
+  m: SafeMap<StepValue<L>, M>,
+  n: SafeMap<StepValue<M>, N>
+): (input: Input) => SafePipeResult<Input, [A, B, C, D, E, F, G, H, I, J, K, L, M, N]>;
+
+export function safePipe<Input, A, B, C, D, E, F, G, H, I, J, K, L, M, N, O>(
+  a: (input: Input) => A,
+  b: SafeMap<StepValue<A>, B>,
+  c: SafeMap<StepValue<B>, C>,
+  d: SafeMap<StepValue<C>, D>,
+  e: SafeMap<StepValue<D>, E>,
+  f: SafeMap<StepValue<E>, F>,
+  g: SafeMap<StepValue<F>, G>,
+  h: SafeMap<StepValue<G>, H>,
+  i: SafeMap<StepValue<H>, I>,
+  j: SafeMap<StepValue<I>, J>,
+  k: SafeMap<StepValue<J>, K>,
+  l: SafeMap<StepValue<K>, L>,
+  m: SafeMap<StepValue<L>, M>,
+  n: SafeMap<StepValue<M>, N>,
+  o: SafeMap<StepValue<N>, O>
+): (input: Input) => SafePipeResult<Input, [A, B, C, D, E, F, G, H, I, J, K, L, M, N, O]>;
+
+export function safePipe<Input, A, B, C, D, E, F, G, H, I, J, K, L, M, N, O, P>(
+  a: (input: Input) => A,
+  b: SafeMap<StepValue<A>, B>,
+  c: SafeMap<StepValue<B>, C>,
+  d: SafeMap<StepValue<C>, D>,
+  e: SafeMap<StepValue<D>, E>,
+  f: SafeMap<StepValue<E>, F>,
+  g: SafeMap<StepValue<F>, G>,
+  h: SafeMap<StepValue<G>, H>,
+  i: SafeMap<StepValue<H>, I>,
+  j: SafeMap<StepValue<I>, J>,
+  k: SafeMap<StepValue<J>, K>,
+  l: SafeMap<StepValue<K>, L>,
+  m: SafeMap<StepValue<L>, M>,
+  n: SafeMap<StepValue<M>, N>,
+  o: SafeMap<StepValue<N>, O>,
+  p: SafeMap<StepValue<O>, P>
+): (input: Input) => SafePipeResult<Input, [A, B, C, D, E, F, G, H, I, J, K, L, M, N, O, P]>;
+
+export function safePipe<Input, A, B, C, D, E, F, G, H, I, J, K, L, M, N, O, P, Q>(
+  a: (input: Input) => A,
+  b: SafeMap<StepValue<A>, B>,
+  c: SafeMap<StepValue<B>, C>,
+  d: SafeMap<StepValue<C>, D>,
+  e: SafeMap<StepValue<D>, E>,
+  f: SafeMap<StepValue<E>, F>,
+  g: SafeMap<StepValue<F>, G>,
+  h: SafeMap<StepValue<G>, H>,
+  i: SafeMap<StepValue<H>, I>,
+  j: SafeMap<StepValue<I>, J>,
+  k: SafeMap<StepValue<J>, K>,
+  l: SafeMap<StepValue<K>, L>,
+  m: SafeMap<StepValue<L>, M>,
+  n: SafeMap<StepValue<M>, N>,
+  o: SafeMap<StepValue<N>, O>,
+  p: SafeMap<StepValue<O>, P>,
+  q: SafeMap<StepValue<P>, Q>
+): (input: Input) => SafePipeResult<Input, [A, B, C, D, E, F, G, H, I, J, K, L, M, N, O, P, Q]>;
+
+export function safePipe<Input, A, B, C, D, E, F, G, H, I, J, K, L, M, N, O, P, Q, R>(
+  a: (input: Input) => A,
+  b: SafeMap<StepValue<A>, B>,
+  c: SafeMap<StepValue<B>, C>,
+  d: SafeMap<StepValue<C>, D>,
+  e: SafeMap<StepValue<D>, E>,
+  f: SafeMap<StepValue<E>, F>,
+  g: SafeMap<StepValue<F>, G>,
+  h: SafeMap<StepValue<G>, H>,
+  i: SafeMap<StepValue<H>, I>,
+  j: SafeMap<StepValue<I>, J>,
+  k: SafeMap<StepValue<J>, K>,
+  l: SafeMap<StepValue<K>, L>,
+  m: SafeMap<StepValue<L>, M>,
+  n: SafeMap<StepValue<M>, N>,
+  o: SafeMap<StepValue<N>, O>,
+  p: SafeMap<StepValue<O>, P>,
+  q: SafeMap<StepValue<P>, Q>,
+  r: SafeMap<StepValue<Q>, R>
+): (input: Input) => SafePipeResult<Input, [A, B, C, D, E, F, G, H, I, J, K, L, M, N, O, P, Q, R]>;
+
+export function safePipe<Input, A, B, C, D, E, F, G, H, I, J, K, L, M, N, O, P, Q, R, S>(
+  a: (input: Input) => A,
+  b: SafeMap<StepValue<A>, B>,
+  c: SafeMap<StepValue<B>, C>,
+  d: SafeMap<StepValue<C>, D>,
+  e: SafeMap<StepValue<D>, E>,
+  f: SafeMap<StepValue<E>, F>,
+  g: SafeMap<StepValue<F>, G>,
+  h: SafeMap<StepValue<G>, H>,
+  i: SafeMap<StepValue<H>, I>,
+  j: SafeMap<StepValue<I>, J>,
+  k: SafeMap<StepValue<J>, K>,
+  l: SafeMap<StepValue<K>, L>,
+  m: SafeMap<StepValue<L>, M>,
+  n: SafeMap<StepValue<M>, N>,
+  o: SafeMap<StepValue<N>, O>,
+  p: SafeMap<StepValue<O>, P>,
+  q: SafeMap<StepValue<P>, Q>,
+  r: SafeMap<StepValue<Q>, R>,
+  s: SafeMap<StepValue<R>, S>
+): (input: Input) => SafePipeResult<Input, [A, B, C, D, E, F, G, H, I, J, K, L, M, N, O, P, Q, R, S]>;
+
+export function safePipe<Input, A, B, C, D, E, F, G, H, I, J, K, L, M, N, O, P, Q, R, S, T>(
+  a: (input: Input) => A,
+  b: SafeMap<StepValue<A>, B>,
+  c: SafeMap<StepValue<B>, C>,
+  d: SafeMap<StepValue<C>, D>,
+  e: SafeMap<StepValue<D>, E>,
+  f: SafeMap<StepValue<E>, F>,
+  g: SafeMap<StepValue<F>, G>,
+  h: SafeMap<StepValue<G>, H>,
+  i: SafeMap<StepValue<H>, I>,
+  j: SafeMap<StepValue<I>, J>,
+  k: SafeMap<StepValue<J>, K>,
+  l: SafeMap<StepValue<K>, L>,
+  m: SafeMap<StepValue<L>, M>,
+  n: SafeMap<StepValue<M>, N>,
+  o: SafeMap<StepValue<N>, O>,
+  p: SafeMap<StepValue<O>, P>,
+  q: SafeMap<StepValue<P>, Q>,
+  r: SafeMap<StepValue<Q>, R>,
+  s: SafeMap<StepValue<R>, S>,
+  t: SafeMap<StepValue<S>, T>
+): (input: Input) => SafePipeResult<Input, [A, B, C, D, E, F, G, H, I, J, K, L, M, N, O, P, Q, R, S, T]>;
+
+export function safePipe<Steps extends [AnyStep, ...AnyStep[]]>(
+  ...steps: Steps & SafePipeSteps<Parameters<Steps[0]>[0], Steps>
+): (input: Parameters<Steps[0]>[0]) => SafePipeResult<Parameters<Steps[0]>[0], StepReturns<Steps>>;
+
+/**
+ * Composes the steps of an object into a pipe, in key order, naming each step by its key.
+ * Key order is not part of object types, so the input and output types are declared instead of inferred.
+ *
+ * @example
+ * const register = safe.pipe<string, Promise<User>>({ parse, validate, enrich, save });
+ * register(body).observeError((e) => e.steps);   // [{ name: 'validate', index: 1 }]
+ */
+export function safePipe<Input = any, Output = unknown>(
+  steps: Record<string, AnyStep>
+): (input: Input) => Safe<Output, PipeError>;
+
+export function safePipe(...args: AnyStep[] | [Record<string, AnyStep>]): (input: any) => Safe<any, any> {
+  const steps = isFunction(args[0]) ? (args as AnyStep[]) : Object.entries(args[0]).map(([name, fn]) => step(name, fn));
+  const transforms = steps.map(toTransform);
   return (input: any) => {
     const initialChain = safeValue(input);
-    return transformers.reduce((chain, transformer) => chain.map(transformer), initialChain);
+    return transforms.reduce((chain, transform) => chain.map(transform), initialChain);
   };
 }
+
+const namedStep = Symbol('namedStep');
+
+type NamedStep = { [namedStep]?: { name: string; fn: AnyStep } };
+
+/**
+ * Names a step, so a failure in it settles the pipe into a {@link PipeError} that locates it.
+ * A pipe used as a named step adds its own steps to the location, outermost first.
+ * Called on its own, the step returns a Safe failing with a `PipeError`.
+ *
+ * @param name - The name of the step
+ * @param fn - The step
+ * @returns The named step
+ *
+ * @example
+ * const loadUser = safe.pipe(
+ *   step('fetch', (id: number) => fetchUser(id)),
+ *   step('parse', (res) => res.json() as Promise<User>)
+ * );
+ * const loadProfile = safe.pipe(step('user', loadUser), step('profile', (user) => user.profile));
+ *
+ * loadProfile(1).observeError((e) => formatErrorTrail(e));
+ * // user
+ * //   caused by: parse
+ * //   caused by: SyntaxError: Unexpected token
+ */
+export function step<A, R>(name: string, fn: (input: A) => R): (input: A) => NamedStepResult<R> {
+  const named = (input: A) => safeExec<any, any>(() => runNamed({ name, index: 0 }, fn, input));
+  return Object.assign(named, { [namedStep]: { name, fn } }) as (input: A) => NamedStepResult<R>;
+}
+
+/**
+ * Runs a named step, locating its failures at `location`.
+ */
+const runNamed = (location: PipeStepLocation, fn: AnyStep, input: unknown) => {
+  const fail = (thrown: unknown): never => {
+    throw PipeError.at(location, safeResult.fail(thrown).error);
+  };
+  try {
+    const output = flatten(fn(input));
+    return isPromiseLike(output) ? output.then(undefined, fail) : output;
+  } catch (thrown) {
+    return fail(thrown);
+  }
+};
+
+/**
+ * The `map` callback a step at `index` runs as. Named steps are labelled for instrumentation and debug mode.
+ */
+const toTransform = (fn: AnyStep, index: number) => {
+  const named = (fn as NamedStep)[namedStep];
+  if (!named) return (value: unknown) => flatten(fn(value));
+  return labelStep((value: unknown) => runNamed({ name: named.name, index }, named.fn, value), named.name);
+};
+
+const isSafe = (value: any): value is Safe<unknown, Error> => isFunction(value?.unwrap) && isFunction(value?.flatMap);
+
+const resultKeys = ['isOk', 'value', 'error'];
+
+/**
+ * Results are recognized by shape, strictly enough that payloads which merely look alike pass through:
+ * an object with no keys besides `isOk`, `value` and `error`, holding a `value` when ok and an `Error` when not.
+ */
+const isSafeResult = (value: any): value is SafeResult<unknown, Error> =>
+  typeof value?.isOk === 'boolean' &&
+  Object.keys(value).every((key) => resultKeys.includes(key)) &&
+  (value.isOk ? 'value' in value : value.error instanceof Error);
+
+/**
+ * Unwraps what a step returned into the value it passes on, throwing a failure into the chain.
+ */
+export const flatten = (output: unknown) => {
+  if (isSafe(output)) return output.unwrap();
+  if (!isSafeResult(output)) return output;
+  if (output.isOk) return output.value;
+  throw output.error;
+};
@@ -1,3 +1,13 @@
+import {
+  AbortError,
+  ContextError,
+  PipeError,
+  RetryError,
+  SafeAggregateError,
+  TimeoutError,
+  ValidationError,
+} from './errors';
+import { config } from './config';
 import { isPromiseLike } from './shared';
 
 /**
@@ -5,10 +15,16 @@ import { isPromiseLike } from './shared';
  */
 type ErrorLike = Error | string | unknown;
 
-export type SafeResult<T = any> =
+/**
+ * The settled state of a Safe chain.
+ *
+ * @template T - The success value type
+ * @template E - The failure type, an `Error` (defaults to `Error`)
+ */
+export type SafeResult<T = any, E extends Error = Error> =
   | {
       isOk: false;
-      error: Error;
+      error: E;
       value?: undefined;
     }
   | {
@@ -17,32 +33,62 @@ export type SafeResult<T = any> =
       value: T;
     };
 
-const normalizeError = (error: ErrorLike): Error => {
-  if (error instanceof Error) return error;
-  if (typeof error === 'string') return new Error(error);
+const stringify = (value: unknown): string => {
   try {
-    return new Error(JSON.stringify(error));
+    return JSON.stringify(value) ?? String(value);
   } catch {
-    return new Error('Unknown error');
+    return 'Unknown error';
   }
 };
 
-const ok = <T>(value: T): SafeResult<T> => {
+/**
+ * Wraps a non-`Error` thrown value in an `Error`, keeping the original value as `cause`.
+ */
+const defaultNormalizeError = (error: ErrorLike): Error => {
+  if (error instanceof Error) return error;
+  const normalized = new Error(typeof error === 'string' ? error : stringify(error));
+  Object.defineProperty(normalized, 'cause', { value: error, writable: true, configurable: true });
+  return normalized;
+};
+
+/**
+ * Errors returned by a configured normalizer, so they are not normalized again as they propagate.
+ */
+const normalized = new WeakSet<object>();
+
+const normalizeError = (error: ErrorLike): Error => {
+  const custom = config.normalizeError;
+  if (!custom) return defaultNormalizeError(error);
+  if (typeof error === 'object' && error !== null && normalized.has(error)) return error as Error;
+  const result = custom(error, defaultNormalizeError);
+  if (typeof result === 'object' && result !== null) normalized.add(result);
+  return result;
+};
+
+/**
+ * Lets an error a step chose on purpose, like the result of `mapError`, through the configured normalizer unchanged.
+ */
+export const keepError = (error: unknown): unknown => {
+  if (error instanceof Error) normalized.add(error);
+  return error;
+};
+
+const ok = <T, E extends Error = Error>(value: T): SafeResult<T, E> => {
   return {
     isOk: true,
     error: undefined,
     value,
   };
 };
-const fail = <T>(error: ErrorLike): SafeResult<T> => {
+const fail = <T, E extends Error = Error>(error: ErrorLike): SafeResult<T, E> => {
   return {
     isOk: false,
-    error: normalizeError(error),
+    error: normalizeError(error) as E,
     value: undefined,
   };
 };
 
-const update = <T extends PromiseLike<SafeResult> | SafeResult, U>(
+const update = <T extends PromiseLike<SafeResult<any, any>> | SafeResult<any, any>, U>(
   prev: T,
   cb: (prev: T extends PromiseLike<any> ? Awaited<T> : T) => U
 ): U extends PromiseLike<any>
@@ -71,10 +117,177 @@ const update = <T extends PromiseLike<SafeResult> | SafeResult, U>(
 };
 
 export type ExtractSafeValue<T> =
-  T extends PromiseLike<SafeResult<infer U>> ? Promise<U> : T extends SafeResult<infer U> ? U : never;
+  T extends PromiseLike<SafeResult<infer U, any>> ? Promise<U> : T extends SafeResult<infer U, any> ? U : never;
+
+export type ExtractSafeError<T> =
+  T extends PromiseLike<infer R> ? ExtractSafeError<R> : T extends { isOk: false; error: infer E } ? E : never;
+
+/**
+ * JSON-safe form of an error: `name`, `message`, `stack`, the `cause` chain and custom enumerable fields.
+ */
+export type SerializedError = {
+  name: string;
+  message: string;
+  stack?: string;
+  cause?: unknown;
+  /** Marks errors nested in a cause or field, so other objects that happen to have a `name` and `message` stay plain */
+  __error?: true;
+  [field: string]: unknown;
+};
+
+/**
+ * JSON-safe form of a {@link SafeResult}, produced by `safeResult.serialize`.
+ */
+export type SerializedSafeResult<T = any> = { isOk: true; value: T } | { isOk: false; error: SerializedError };
+
+/**
+ * Error classes that can be rehydrated, keyed by the `name` their instances report.
+ */
+export type ErrorRegistry = Record<string, new (...args: any[]) => Error>;
+
+export type SerializeOptions = {
+  /** Include stack traces (defaults to `true`). Turn off for responses sent to untrusted clients. */
+  stack?: boolean;
+};
+
+const errorRegistry: ErrorRegistry = {
+  Error,
+  EvalError,
+  RangeError,
+  ReferenceError,
+  SyntaxError,
+  TypeError,
+  URIError,
+  AbortError,
+  ContextError,
+  PipeError,
+  RetryError,
+  SafeAggregateError,
+  TimeoutError,
+  ValidationError,
+};
+
+/**
+ * Registers an error class so deserialized errors with its name become real instances.
+ *
+ * @param errorClass - The error class
+ * @param name - The `name` its instances report (defaults to the class name)
+ */
+const registerError = (errorClass: new (...args: any[]) => Error, name: string = errorClass.name): void => {
+  errorRegistry[name] = errorClass;
+};
+
+const isSerializedError = (value: unknown): value is SerializedError =>
+  typeof value === 'object' &&
+  value !== null &&
+  (value as SerializedError).__error === true &&
+  typeof (value as SerializedError).name === 'string' &&
+  typeof (value as SerializedError).message === 'string';
+
+/**
+ * Sets a field as an own property, so keys like `__proto__` from untrusted input can't replace the prototype.
+ */
+const defineField = (target: object, key: string, value: unknown) =>
+  Object.defineProperty(target, key, { value, writable: true, configurable: true, enumerable: true });
+
+/**
+ * Encodes errors nested in a cause or field. `seen` holds the errors being encoded around it,
+ * so an error that refers back to one of them is left out instead of looping forever.
+ */
+const encode = (value: unknown, options: SerializeOptions, seen: Set<Error>): unknown => {
+  if (value instanceof Error)
+    return seen.has(value) ? undefined : { ...serializeError(value, options, seen), __error: true };
+  if (Array.isArray(value)) return value.map((item) => encode(item, options, seen));
+  return value;
+};
+
+const decode = (value: unknown, registry: ErrorRegistry): unknown => {
+  if (isSerializedError(value)) return deserializeError(value, registry);
+  if (Array.isArray(value)) return value.map((item) => decode(item, registry));
+  return value;
+};
+
+const serializeError = (error: Error, options: SerializeOptions, seen = new Set<Error>()): SerializedError => {
+  const serialized: SerializedError = { name: error.name, message: error.message };
+  if (options.stack !== false && error.stack) serialized.stack = error.stack;
+  seen.add(error);
+  const cause = encode((error as { cause?: unknown }).cause, options, seen);
+  if (cause !== undefined) serialized.cause = cause;
+  for (const key of Object.keys(error)) {
+    if (key === 'name' || key === 'message' || key === 'stack' || key === 'cause' || key === '__error') continue;
+    const value = (error as unknown as Record<string, unknown>)[key];
+    const encoded = encode(value, options, seen);
+    if (encoded !== undefined || value === undefined) defineField(serialized, key, encoded);
+  }
+  seen.delete(error);
+  return serialized;
+};
+
+/**
+ * Rebuilds the error without calling its constructor, whose parameters are unknown here.
+ */
+const deserializeError = (serialized: SerializedError, registry: ErrorRegistry): Error => {
+  const { name, message, stack, cause, ...fields } = serialized;
+  const errorClass = Object.prototype.hasOwnProperty.call(registry, name) ? registry[name] : Error;
+  const error = Object.create(errorClass.prototype) as Error;
+  const hidden = (key: string, value: unknown) =>
+    Object.defineProperty(error, key, { value, writable: true, configurable: true, enumerable: false });
+
+  hidden('message', message);
+  if (error.name !== name) hidden('name', name);
+  hidden('stack', stack ?? `${name}: ${message}`);
+  if (cause !== undefined) hidden('cause', decode(cause, registry));
+  for (const [key, value] of Object.entries(fields))
+    if (key !== '__error') defineField(error, key, decode(value, registry));
+  return error;
+};
+
+/**
+ * Encodes a result into a JSON-safe object that survives `JSON.stringify`, `postMessage` and server actions.
+ * The value is kept as is; the error is encoded with its name, message, stack, cause chain and custom fields.
+ *
+ * @param result - The result to encode
+ * @param options - Serialization options
+ * @returns The JSON-safe result
+ *
+ * @example
+ * res.json(safeResult.serialize(result));
+ */
+const serialize = <T, E extends Error = Error>(
+  result: SafeResult<T, E>,
+  options: SerializeOptions = {}
+): SerializedSafeResult<T> => {
+  if (result.isOk) return { isOk: true, value: result.value };
+  const error = result.error instanceof Error ? result.error : normalizeError(result.error);
+  return { isOk: false, error: serializeError(error, options) };
+};
+
+/**
+ * Decodes a result produced by {@link serialize}. Errors whose name is registered
+ * (built-in errors, this library's errors, and classes added with `registerError`)
+ * are rehydrated as real instances; other errors become plain `Error`s with their name kept.
+ *
+ * @param data - The serialized result, or its JSON text
+ * @param registry - Error classes to rehydrate (defaults to the shared registry)
+ * @returns The result
+ *
+ * @example
+ * const result = safeResult.deserialize<User>(await response.text());
+ */
+const deserialize = <T = any, E extends Error = Error>(
+  data: SerializedSafeResult<T> | string,
+  registry: ErrorRegistry = errorRegistry
+): SafeResult<T, E> => {
+  const parsed: SerializedSafeResult<T> = typeof data === 'string' ? JSON.parse(data) : data;
+  if (parsed.isOk) return ok(parsed.value);
+  return { isOk: false, error: deserializeError(parsed.error, registry) as E, value: undefined };
+};
 
 export const safeResult = {
   ok,
   fail,
   update,
+  serialize,
+  deserialize,
+  registerError,
 };
@@ -1,3 +1,8 @@
 export const isFunction = (value: any): value is (...args: any[]) => any => typeof value === 'function';
 
 export const isPromiseLike = (x: unknown): x is PromiseLike<unknown> => isFunction((x as any)?.then);
+
+/**
+ * A high-resolution timestamp for step durations, falling back to `Date.now` where `performance` is missing.
+ */
+export const timestamp = (): number => (typeof performance === 'undefined' ? Date.now() : performance.now());
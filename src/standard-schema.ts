@@ -0,0 +1,58 @@
+import { ValidationError } from './errors';
+import { isPromiseLike } from './shared';
+
+/**
+ * The Standard Schema v1 interface (https://standardschema.dev), implemented by zod, valibot, arktype and others.
+ * Copied here as the spec recommends, so no schema library is required.
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly '~standard': {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (value: unknown) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>;
+    readonly types?: { readonly input: Input; readonly output: Output } | undefined;
+  };
+}
+
+export type StandardSchemaResult<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<StandardSchemaIssue> };
+
+export type StandardSchemaIssue = {
+  readonly message: string;
+  readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }> | undefined;
+};
+
+/**
+ * The output type of a Standard Schema.
+ */
+export type InferSchemaOutput<S extends StandardSchemaV1> = NonNullable<S['~standard']['types']>['output'];
+
+const toValidationError = (issues: ReadonlyArray<StandardSchemaIssue>): ValidationError =>
+  new ValidationError(
+    issues.map((issue) => ({
+      message: issue.message,
+      path: (issue.path ?? []).map((segment) => (typeof segment === 'object' ? segment.key : segment)),
+    }))
+  );
+
+const unwrapSchemaResult = <O>(result: StandardSchemaResult<O>): O => {
+  if (result.issues) throw toValidationError(result.issues);
+  return result.value;
+};
+
+/**
+ * Validates a value with a Standard Schema, throwing a {@link ValidationError} with the schema's issues.
+ * With `allowAsync` a Promise is returned for async schemas; otherwise they are rejected,
+ * so a sync chain never turns async behind its type.
+ */
+export const runSchema = <O>(
+  schema: StandardSchemaV1<unknown, O>,
+  value: unknown,
+  allowAsync: boolean
+): O | Promise<O> => {
+  const result = schema['~standard'].validate(value);
+  if (!isPromiseLike(result)) return unwrapSchemaResult(result);
+  if (!allowAsync) throw new TypeError('Schema validation is async; use parseAsync instead of parse');
+  return result.then(unwrapSchemaResult);
+};
@@ -0,0 +1,170 @@
+import { safeExec, Safe } from './core';
+import { SafeAggregateError, toAbortError } from './errors';
+import { SafeResult, safeResult } from './result';
+import { isPromiseLike } from './shared';
+
+/**
+ * What `toArray` does with failed items:
+ * - `stop` — fails with the first error and stops reading the source
+ * - `skip` — drops failed items
+ * - `collect` — reads every item, then fails with a {@link SafeAggregateError} if any failed
+ */
+export type StreamErrorPolicy = 'stop' | 'skip' | 'collect';
+
+export type StreamOptions<P extends StreamErrorPolicy = StreamErrorPolicy> = {
+  /** How failed items are handled by `toArray` (defaults to `'stop'`) */
+  onError?: P;
+  /** Stops reading the source once aborted */
+  signal?: AbortSignal;
+};
+
+type StreamFailure<P, E extends Error> = P extends 'skip' ? never : P extends 'collect' ? SafeAggregateError<E> : E;
+
+/**
+ * A lazy stream of items, each carried as its own {@link SafeResult}.
+ * Steps run per item, so a failing item never affects the others.
+ * Nothing is read from the source until a terminal operation runs.
+ */
+export interface SafeStream<T, E extends Error = Error, P extends StreamErrorPolicy = 'stop'> {
+  /**
+   * Transforms each successful item. A throw (or rejection) fails only that item.
+   */
+  map<U, F extends Error = never>(fn: (value: T, index: number) => U): SafeStream<Awaited<U>, E | F, P>;
+
+  /**
+   * Keeps the successful items that satisfy the predicate. Failed items pass through.
+   */
+  filter<S extends T>(predicate: (value: T, index: number) => value is S): SafeStream<S, E, P>;
+  filter(predicate: (value: T, index: number) => boolean | PromiseLike<boolean>): SafeStream<T, E, P>;
+
+  /**
+   * Replaces each failed item with a recovery value.
+   */
+  recover<U, F extends Error = Error>(fn: (error: E, index: number) => U): SafeStream<T | Awaited<U>, F, P>;
+
+  /**
+   * Observes each failed item without affecting the stream.
+   */
+  observeError(fn: (error: E, index: number) => unknown): SafeStream<T, E, P>;
+
+  /**
+   * Reads the whole source and collects the values, applying the stream's error policy.
+   * A source that fails while being read fails the Safe regardless of the policy.
+   *
+   * @example
+   * await safe.stream(lines, { onError: 'skip' }).map(JSON.parse).toArray().unwrap()
+   */
+  toArray(): Safe<Promise<T[]>, StreamFailure<P, E> | Error>;
+
+  /**
+   * Iterates the result of every item, leaving the handling of failures to the caller.
+   */
+  [Symbol.asyncIterator](): AsyncIterator<SafeResult<T, E>>;
+}
+
+/**
+ * Runs a step on one item. `undefined` means the item was filtered out.
+ */
+type Step = (item: SafeResult<any, any>, index: number) => Promise<SafeResult<any, any> | undefined>;
+
+const settle = (run: () => unknown): Promise<SafeResult<any, any>> =>
+  Promise.resolve()
+    .then(run)
+    .then((value) => safeResult.ok(value), safeResult.fail);
+
+const createStream = (
+  source: AsyncIterable<unknown> | Iterable<unknown>,
+  options: StreamOptions,
+  steps: Step[]
+): SafeStream<any, any, any> => {
+  const append = (step: Step) => createStream(source, options, [...steps, step]);
+
+  async function* results(): AsyncGenerator<SafeResult<any, any>> {
+    const { signal } = options;
+    let index = 0;
+    for await (const value of source) {
+      if (signal?.aborted) throw toAbortError(signal);
+      let item: SafeResult<any, any> | undefined = safeResult.ok(value);
+      for (const step of steps) {
+        item = await step(item, index);
+        if (!item) break;
+      }
+      index++;
+      if (item) yield item;
+    }
+  }
+
+  return {
+    map(fn) {
+      return append(async (item, index) => (item.isOk ? settle(() => fn(item.value, index)) : item));
+    },
+
+    filter(predicate: (value: any, index: number) => boolean | PromiseLike<boolean>) {
+      return append(async (item, index) => {
+        if (!item.isOk) return item;
+        const kept = await settle(() => predicate(item.value, index));
+        if (!kept.isOk) return kept;
+        return kept.value ? item : undefined;
+      });
+    },
+
+    recover(fn) {
+      return append(async (item, index) => (item.isOk ? item : settle(() => fn(item.error, index))));
+    },
+
+    observeError(fn) {
+      return append(async (item, index) => {
+        if (!item.isOk) {
+          try {
+            const r = fn(item.error, index);
+            if (isPromiseLike(r)) r.then(null, () => {});
+          } catch {
+            // Errors are intentionally ignored in observeError
+          }
+        }
+        return item;
+      });
+    },
+
+    toArray() {
+      const policy = options.onError ?? 'stop';
+      return safeExec(async () => {
+        const values: unknown[] = [];
+        const errors: unknown[] = [];
+        for await (const item of results()) {
+          if (item.isOk) values.push(item.value);
+          else if (policy === 'stop') throw item.error;
+          else if (policy === 'collect') errors.push(item.error);
+        }
+        if (errors.length) throw new SafeAggregateError(errors, `${errors.length} stream item(s) failed`);
+        return values;
+      });
+    },
+
+    [Symbol.asyncIterator]() {
+      return results();
+    },
+  };
+};
+
+/**
+ * Creates a {@link SafeStream} over an async iterable (or a plain iterable).
+ *
+ * @param source - The items to process, e.g. file lines or pages of an API
+ * @param options - The error policy and an optional `AbortSignal`
+ * @returns A lazy SafeStream
+ *
+ * @example
+ * const users = await safe
+ *   .stream(readLines('users.jsonl'), { onError: 'collect' })
+ *   .map(line => JSON.parse(line) as User)
+ *   .filter(user => user.active)
+ *   .toArray()
+ *   .unwrap(); // throws SafeAggregateError listing every bad line
+ */
+export function safeStream<T, E extends Error = Error, P extends StreamErrorPolicy = 'stop'>(
+  source: AsyncIterable<T> | Iterable<T>,
+  options: StreamOptions<P> = {}
+): SafeStream<Awaited<T>, E, P> {
+  return createStream(source, options, []);
+}
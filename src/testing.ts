@@ -0,0 +1,87 @@
+import type { Clock } from './util/clock';
+
+/**
+ * A {@link Clock} whose time only moves when told to, for deterministic tests of time-based code.
+ */
+export interface TestClock extends Clock {
+  /**
+   * Moves time forward by `ms`, running the timers that come due in order.
+   * Pending promise callbacks run before each timer, so async code can schedule its next one on the way.
+   */
+  advance(ms: number): Promise<void>;
+  /** Advances until no timer is pending */
+  runAll(): Promise<void>;
+  /** The delay of every timer scheduled so far, in order, including cancelled ones */
+  readonly delays: readonly number[];
+  /** The number of timers that have not run or been cancelled */
+  readonly pending: number;
+}
+
+type Timer = { at: number; fn: () => void };
+
+// Captured at import, so fake global timers installed later don't stall the flush.
+const realSetTimeout = globalThis.setTimeout;
+
+/**
+ * Lets the pending promise callbacks run, including those they queue in turn.
+ */
+const flush = () => new Promise<void>((resolve) => realSetTimeout(resolve, 0));
+
+/**
+ * Creates a clock for tests: inject it into a utility's `clock` option, or into `safe.configure({ clock })`.
+ *
+ * @param start - The time it starts at in ms (default: 0)
+ * @returns The test clock
+ *
+ * @example
+ * const clock = createTestClock();
+ * const result = safe(url).map(retry(fetchData, { delay: 1000, backoff: true, clock })).unwrap();
+ * await clock.runAll();
+ * expect(clock.delays).toEqual([1000, 2000]);
+ */
+export const createTestClock = (start = 0): TestClock => {
+  let now = start;
+  const timers: Timer[] = [];
+  const delays: number[] = [];
+
+  const nextDue = (until: number) =>
+    timers.reduce<Timer | undefined>(
+      (due, timer) => (timer.at <= until && (!due || timer.at < due.at) ? timer : due),
+      undefined
+    );
+
+  const advanceTo = async (until: number) => {
+    await flush();
+    for (let timer = nextDue(until); timer; timer = nextDue(until)) {
+      timers.splice(timers.indexOf(timer), 1);
+      now = Math.max(now, timer.at);
+      timer.fn();
+      await flush();
+    }
+    now = Math.max(now, until);
+  };
+
+  return {
+    now: () => now,
+    setTimeout: (fn, ms) => {
+      const timer: Timer = { at: now + Math.max(0, ms), fn };
+      timers.push(timer);
+      delays.push(ms);
+      return () => {
+        const index = timers.indexOf(timer);
+        if (index !== -1) timers.splice(index, 1);
+      };
+    },
+    advance: (ms) => advanceTo(now + ms),
+    runAll: async () => {
+      await flush();
+      while (timers.length) await advanceTo(Math.max(...timers.map((timer) => timer.at)));
+    },
+    get delays() {
+      return delays;
+    },
+    get pending() {
+      return timers.length;
+    },
+  };
+};
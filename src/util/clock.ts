@@ -0,0 +1,45 @@
+import { config } from '../config';
+import { toAbortError } from '../errors';
+
+/**
+ * The source of time for timeouts, deadlines and retry delays. Replace it in tests with `createTestClock` from `ts-safe/testing`.
+ */
+export interface Clock {
+  /** The current time in milliseconds */
+  now(): number;
+  /** Runs `fn` after `ms` milliseconds; returns a function that cancels it */
+  setTimeout(fn: () => void, ms: number): () => void;
+}
+
+/**
+ * The clock backed by `Date.now` and the global `setTimeout`.
+ */
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (fn, ms) => {
+    const timer = setTimeout(fn, ms);
+    return () => clearTimeout(timer);
+  },
+};
+
+/**
+ * The clock a timer uses: a utility's own option, else the configured clock, else the system clock.
+ */
+export const clockOf = (clock?: Clock): Clock => clock ?? config.clock ?? systemClock;
+
+/**
+ * Resolves after `ms` on `clock`, or rejects with the `AbortError` as soon as the signal aborts.
+ */
+export const sleep = (clock: Clock, ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(toAbortError(signal));
+    const onAbort = () => {
+      cancel();
+      reject(toAbortError(signal!));
+    };
+    const cancel = clock.setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
@@ -1,2 +1,3 @@
-export { errorIf, errorIfEmpty, errorIfFalsy, errorIfNull } from './valid';
-export { retry } from './retry';
+export { errorIf, errorIfEmpty, errorIfFalsy, errorIfNull, validateAll, type ValidationChecks } from './valid';
+export { retry, type RetryJitter, type RetryOptions } from './retry';
+export { systemClock, type Clock } from './clock';
@@ -1,41 +1,112 @@
+import { RetryError, toAbortError } from '../errors';
+import { Clock, clockOf, sleep } from './clock';
+
+/**
+ * How delays between attempts are randomized, so clients that fail together don't retry together:
+ * - `'full'` — anywhere between 0 and the delay
+ * - `'equal'` — half the delay, plus up to the other half
+ * - `'decorrelated'` — between `delay` and three times the previous delay, growing on its own
+ */
+export type RetryJitter = 'none' | 'full' | 'equal' | 'decorrelated';
+
+/**
+ * Configuration options for retry behavior
+ */
+export type RetryOptions = {
+  /** Maximum number of attempts (default: 3) */
+  maxTries?: number;
+  /** Delay between retries in ms (default: 1000) */
+  delay?: number;
+  /** Whether to use exponential backoff (default: false) */
+  backoff?: boolean;
+  /** Upper bound for a single delay in ms, applied after backoff and jitter (default: none) */
+  maxDelay?: number;
+  /** Randomizes the delays (default: 'none') */
+  jitter?: RetryJitter;
+  /** Decides whether a failed attempt is retried, e.g. not for validation errors (default: always) */
+  retryIf?: (error: unknown, attempt: number) => boolean;
+  /** Called before each retry with the error, the attempt that failed and the delay before the next one */
+  onRetry?: (error: unknown, attempt: number, delay: number) => void;
+};
+
+/**
+ * Creates the delays of one retry run: the delay after each failed attempt.
+ *
+ * @param options - The retry options
+ * @param defaultDelay - The delay when `options.delay` is not set
+ * @returns A function from the attempt that failed (from 1) to the delay in ms
+ */
+export const retrySchedule = (options: RetryOptions, defaultDelay: number) => {
+  const delay = options.delay ?? defaultDelay;
+  const maxDelay = options.maxDelay ?? Infinity;
+  let previous = delay;
+
+  return (attempt: number): number => {
+    const base = Math.min(options.backoff ? delay * Math.pow(2, attempt - 1) : delay, maxDelay);
+    switch (options.jitter) {
+      case 'full':
+        return Math.random() * base;
+      case 'equal':
+        return base / 2 + (Math.random() * base) / 2;
+      case 'decorrelated':
+        previous = Math.min(delay + Math.random() * (previous * 3 - delay), maxDelay);
+        return previous;
+      default:
+        return base;
+    }
+  };
+};
+
 /**
  * Creates a function that will automatically retry a failed operation
+ *
+ * - Gives up after `maxTries` attempts, or as soon as `retryIf` rejects an error,
+ *   with a {@link RetryError} holding the error of every attempt
+ * - Once `signal` aborts, no further attempt starts and it fails with an `AbortError`
+ *
  * @param fn The function to retry
- * @param options Configuration options for retry behavior
+ * @param options Configuration options for retry behavior, a `signal` to stop retrying
+ * and the `clock` that times the delays (default: the configured clock)
  * @returns A wrapped function that implements retry logic
+ *
+ * @example
+ * safe(url).map(
+ *   retry(fetchData, {
+ *     maxTries: 5,
+ *     delay: 200,
+ *     backoff: true,
+ *     jitter: 'full',
+ *     maxDelay: 5000,
+ *     retryIf: (error) => !(error instanceof ValidationError),
+ *     onRetry: (error, attempt, delay) => log.warn(`attempt ${attempt} failed, retrying in ${delay}ms`, error),
+ *   })
+ * );
  */
 export const retry = <T, U>(
   fn: (arg: T) => Promise<U> | U,
-  options?: {
-    maxTries?: number; // Maximum number of attempts (default: 3)
-    delay?: number; // Delay between retries in ms (default: 1000)
-    backoff?: boolean; // Whether to use exponential backoff (default: false)
-  }
+  options?: RetryOptions & { signal?: AbortSignal; clock?: Clock }
 ) => {
   const maxTries = options?.maxTries ?? 3;
-  const delay = options?.delay ?? 1000;
-  const useBackoff = options?.backoff ?? false;
+  const signal = options?.signal;
 
   return async (arg: T): Promise<U> => {
-    let lastError: Error | undefined;
+    const clock = clockOf(options?.clock);
+    const errors: unknown[] = [];
+    const nextDelay = retrySchedule(options ?? {}, 1000);
 
-    for (let i = 0; i < maxTries; i++) {
+    for (let attempt = 1; ; attempt++) {
+      if (signal?.aborted) throw toAbortError(signal);
       try {
-        // Attempt to execute the function
         return await fn(arg);
       } catch (error) {
-        lastError = error as Error;
-
-        // If not the last attempt, wait before retrying
-        if (i < maxTries - 1) {
-          // Calculate delay time - if using backoff, increase delay exponentially
-          const waitTime = useBackoff ? delay * Math.pow(2, i) : delay;
-          await new Promise((resolve) => setTimeout(resolve, waitTime));
+        errors.push(error);
+        if (attempt >= maxTries || (options?.retryIf && !options.retryIf(error, attempt))) {
+          throw new RetryError(errors);
         }
+        const wait = nextDelay(attempt);
+        options?.onRetry?.(error, attempt, wait);
+        await sleep(clock, wait, signal);
       }
     }
-
-    // If all attempts failed, throw the last error
-    throw lastError;
   };
 };
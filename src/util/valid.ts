@@ -1,31 +1,41 @@
+import { ValidationError, type ValidationIssue } from '../errors';
+
+/**
+ * The type with its falsy literal types removed.
+ */
+type Truthy<T> = Exclude<T, false | 0 | '' | null | undefined | 0n>;
+
 /**
  * Creates a validator function that throws an error if the value is null or undefined.
  *
+ * The returned value type has `null` and `undefined` removed.
+ *
  * @template T - The type of the value to validate
  * @param {string} [message='Value is null or undefined'] - The error message to throw
- * @returns {function(T): T} A function that validates input and returns it if valid
+ * @returns {function(T): NonNullable<T>} A function that validates input and returns it if valid
  * @throws {Error} If the value is null or undefined
  */
-export const errorIfNull = <T = unknown>(message = 'Value is null or undefined'): ((value: T) => T) => {
+export const errorIfNull = <T = unknown>(message = 'Value is null or undefined'): ((value: T) => NonNullable<T>) => {
   return (value: T) => {
     if (value === null || value === undefined) throw new Error(message);
-    return value;
+    return value as NonNullable<T>;
   };
 };
 
 /**
  * Creates a validator function that throws an error if the value is falsy.
  * Falsy values include: null, undefined, empty string, 0, false, NaN.
+ * The returned value type has the falsy literal types removed.
  *
  * @template T - The type of the value to validate
  * @param {string} [message='Value is falsy'] - The error message to throw
- * @returns {function(T): T} A function that validates input and returns it if valid
+ * @returns {function(T): Truthy<T>} A function that validates input and returns it if valid
  * @throws {Error} If the value is falsy
  */
-export const errorIfFalsy = <T = unknown>(message = 'Value is falsy'): ((value: T) => T) => {
+export const errorIfFalsy = <T = unknown>(message = 'Value is falsy'): ((value: T) => Truthy<T>) => {
   return (value: T) => {
     if (!value) throw new Error(message);
-    return value;
+    return value as Truthy<T>;
   };
 };
 
@@ -47,16 +57,83 @@ export const errorIfEmpty = <T extends { length: number }>(message = 'Value is e
 /**
  * Creates a validator function that throws an error based on a custom condition.
  *
+ * When given a type guard and a message, it throws if the guard matches and
+ * removes the guarded type from the returned value type.
+ *
  * @template T - The type of the value to validate
  * @param {function(T): (string|false|undefined)} check - Function that should return an error message
  * if validation fails, or false/undefined if validation passes
  * @returns {function(T): T} A function that validates input and returns it if valid
  * @throws {Error} If the check function returns a string (error message)
+ *
+ * @example
+ * const notString = errorIf((v: string | number): v is string => typeof v === 'string', 'Expected a number');
+ * safe<string | number>(input).map(notString) // Safe<number>
  */
-export const errorIf = <T>(check: (value: T) => string | false | undefined): ((value: T) => T) => {
+export function errorIf<T>(check: (value: T) => string | false | undefined): (value: T) => T;
+export function errorIf<T, B extends T>(check: (value: T) => value is B, message: string): (value: T) => Exclude<T, B>;
+export function errorIf<T>(check: (value: T) => string | boolean | undefined, message?: string): (value: T) => T {
   return (value: T) => {
     const result = check(value);
-    if (result) throw new Error(result);
+    if (result) throw new Error(typeof result === 'string' ? result : message);
     return value;
   };
-};
+}
+
+/**
+ * A check that throws when the value is invalid, such as the `errorIf*` validators.
+ */
+type Check<T> = (value: T) => unknown;
+
+/**
+ * Checks for the value itself, or per-field checks for an object.
+ */
+export type ValidationChecks<T> =
+  | readonly Check<T>[]
+  | { readonly [K in keyof T]?: Check<T[K]> | readonly Check<T[K]>[] };
+
+/**
+ * Creates a validator function that runs every check instead of stopping at the first failure.
+ * The message of every thrown error is collected into a single `ValidationError`.
+ *
+ * Per-field checks take the value type from where the validator is used (e.g. `map`), or from `T`.
+ *
+ * @template T - The type of the value to validate
+ * @param {ValidationChecks<T>} checks - Checks for the value, or a record of checks per field
+ * @returns {function(T): T} A function that validates input and returns it if every check passes
+ * @throws {ValidationError} If any check throws, with one issue per failed check
+ *
+ * @example
+ * safe(form).map(
+ *   validateAll({
+ *     name: errorIfEmpty('Name is required'),
+ *     age: [errorIfNull('Age is required'), errorIf((age) => (age < 0 ? 'Age cannot be negative' : false))],
+ *   })
+ * )
+ */
+export function validateAll<T>(checks: readonly Check<T>[]): (value: T) => T;
+export function validateAll<T>(checks: NoInfer<ValidationChecks<T>>): (value: T) => T;
+export function validateAll<T>(checks: ValidationChecks<T>): (value: T) => T {
+  return (value: T) => {
+    const issues: ValidationIssue[] = [];
+    const run = (check: Check<any>, input: unknown, path: PropertyKey[]) => {
+      try {
+        check(input);
+      } catch (error) {
+        issues.push({ message: error instanceof Error ? error.message : String(error), path });
+      }
+    };
+
+    if (Array.isArray(checks)) {
+      for (const check of checks) run(check, value, []);
+    } else {
+      for (const [key, fieldChecks] of Object.entries(checks as Record<string, Check<any> | Check<any>[]>)) {
+        const field = (value as Record<string, unknown> | null | undefined)?.[key];
+        for (const check of [fieldChecks].flat()) run(check, field, [key]);
+      }
+    }
+
+    if (issues.length) throw new ValidationError(issues);
+    return value;
+  };
+}
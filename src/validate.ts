@@ -0,0 +1,54 @@
+import { safeExec, Safe } from './core';
+import type { ValidationError } from './errors';
+import { InferSchemaOutput, runSchema, StandardSchemaV1 } from './standard-schema';
+import { validateAll, type ValidationChecks } from './util/valid';
+
+/**
+ * Wraps a value in a Safe that fails with a {@link ValidationError} listing every failed check.
+ *
+ * @param value - The value to validate
+ * @param checks - Checks for the value, or a record of checks per field
+ * @returns A Safe of the value, or of every issue found
+ *
+ * @example
+ * safe.validate(form, {
+ *   email: [errorIfEmpty('Email is required'), errorIf((v) => (v.includes('@') ? false : 'Invalid email'))],
+ *   password: errorIf((v) => (v.length < 8 ? 'Password is too short' : false)),
+ * }).observeError((e) => showIssues(e.issues));
+ */
+export function safeValidate<T>(value: T, checks: NoInfer<ValidationChecks<T>>): Safe<T, ValidationError> {
+  return safeExec<T, ValidationError>(() => validateAll<T>(checks)(value));
+}
+
+/**
+ * Parses an input with a Standard Schema (zod, valibot, arktype, ...) into a Safe of the schema's output.
+ * Invalid input fails with a {@link ValidationError} carrying the schema's issues and paths.
+ * The schema must be sync; use {@link safeParseAsync} for schemas with async checks.
+ *
+ * @param schema - Any Standard Schema v1 validator
+ * @param input - The input to parse
+ * @returns A Safe of the parsed value
+ *
+ * @example
+ * safe.parse(UserSchema, await request.json()).map(user => user.id)
+ */
+export function safeParse<S extends StandardSchemaV1>(
+  schema: S,
+  input: unknown
+): Safe<InferSchemaOutput<S>, ValidationError> {
+  return safeExec(() => runSchema(schema, input, false) as InferSchemaOutput<S>);
+}
+
+/**
+ * Like {@link safeParse}, but also accepts schemas with async checks. Always returns an async Safe.
+ *
+ * @param schema - Any Standard Schema v1 validator
+ * @param input - The input to parse
+ * @returns An async Safe of the parsed value
+ */
+export function safeParseAsync<S extends StandardSchemaV1>(
+  schema: S,
+  input: unknown
+): Safe<Promise<InferSchemaOutput<S>>, ValidationError> {
+  return safeExec(() => Promise.resolve(runSchema(schema, input, true) as InferSchemaOutput<S>));
+}
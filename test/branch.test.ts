@@ -0,0 +1,142 @@
+import { describe, expect, expectTypeOf, it, vi } from 'vitest';
+import { branch, safe, safePipe, safeResult, switchOn, unless, when, type Safe } from '../src';
+
+type Shape = { kind: 'circle'; radius: number } | { kind: 'square'; size: number };
+
+describe('when', () => {
+  it('runs the step only when the predicate holds', () => {
+    const piped = safePipe(
+      (x: number) => x,
+      when(
+        (x) => x > 10,
+        (x) => x * 2
+      )
+    );
+
+    expect(piped(20).unwrap()).toBe(40);
+    expect(piped(5).unwrap()).toBe(5);
+    expectTypeOf(piped).returns.toEqualTypeOf<Safe<number, Error>>();
+  });
+
+  it('narrows the input with a type guard', () => {
+    const chain = safe<string | number>('abc').map(
+      when(
+        (x): x is string => typeof x === 'string',
+        (s) => s.length
+      )
+    );
+
+    expect(chain.unwrap()).toBe(3);
+    expectTypeOf(chain).toEqualTypeOf<Safe<number, Error>>();
+  });
+
+  it('flattens a Safe returned by the step', () => {
+    const chain = safe(1).map(
+      when(
+        (x) => x > 0,
+        () =>
+          safe<number>(() => {
+            throw new Error('boom');
+          })
+      )
+    );
+
+    expect(chain.isOk).toBe(false);
+  });
+});
+
+describe('unless', () => {
+  it('runs the step unless the predicate holds', () => {
+    const step = unless(
+      (x: number) => x > 10,
+      () => 10
+    );
+
+    expect(safe(20).map(step).unwrap()).toBe(20);
+    expect(safe(5).map(step).unwrap()).toBe(10);
+  });
+
+  it('narrows the input of the step to what the type guard excludes', () => {
+    const chain = safe<string | number>('42').map(
+      unless(
+        (x): x is number => typeof x === 'number',
+        (s) => Number(s)
+      )
+    );
+
+    expect(chain.unwrap()).toBe(42);
+    expectTypeOf(chain).toEqualTypeOf<Safe<number, Error>>();
+  });
+});
+
+describe('branch', () => {
+  it('runs one of two steps', () => {
+    const onTrue = vi.fn(() => 'positive');
+    const piped = safePipe(
+      (x: number) => x,
+      branch(
+        (x) => x > 0,
+        onTrue,
+        (x) => x < -5
+      )
+    );
+
+    expect(piped(1).unwrap()).toBe('positive');
+    expect(piped(-10).unwrap()).toBe(true);
+    expect(onTrue).toHaveBeenCalledTimes(1);
+    expectTypeOf(piped).returns.toEqualTypeOf<Safe<string | boolean, Error>>();
+  });
+
+  it('narrows both steps with a type guard', () => {
+    const step = branch(
+      (x: string | number): x is string => typeof x === 'string',
+      (s) => s.toUpperCase(),
+      (n) => n.toFixed(1)
+    );
+
+    expect(safe<string | number>('a').map(step).unwrap()).toBe('A');
+    expect(safe<string | number>(1).map(step).unwrap()).toBe('1.0');
+  });
+
+  it('flattens SafeResults returned by the steps', () => {
+    const step = branch(
+      (x: number) => x >= 0,
+      (x) => safeResult.ok(Math.sqrt(x)),
+      () => safeResult.fail(new RangeError('negative'))
+    );
+
+    expect(safe(4).map(step).unwrap()).toBe(2);
+    expect(() => safe(-4).map(step).unwrap()).toThrow(RangeError);
+  });
+});
+
+describe('switchOn', () => {
+  const area: (shape: Shape) => number = switchOn('kind', {
+    circle: (circle) => Math.PI * circle.radius ** 2,
+    square: (square) => square.size ** 2,
+  });
+
+  it('routes by the discriminant', () => {
+    expect(safe<Shape>({ kind: 'square', size: 3 }).map(area).unwrap()).toBe(9);
+    expect(safe<Shape>({ kind: 'circle', radius: 1 }).map(area).unwrap()).toBeCloseTo(Math.PI);
+  });
+
+  it('narrows each case in a pipe', async () => {
+    const describeShape = safePipe(
+      (shape: Shape) => shape,
+      switchOn('kind', {
+        circle: (circle) => `circle of radius ${circle.radius}`,
+        square: async (square) => `square of size ${square.size}`,
+      })
+    );
+
+    expect(describeShape({ kind: 'circle', radius: 2 }).unwrap()).toBe('circle of radius 2');
+    expect(await describeShape({ kind: 'square', size: 3 }).unwrap()).toBe('square of size 3');
+  });
+
+  it('fails on a value without a case', () => {
+    const chain = safe({ kind: 'triangle' } as unknown as Shape).map(area);
+
+    expect(() => chain.unwrap()).toThrow('No case for kind "triangle"');
+  });
+});
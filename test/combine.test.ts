@@ -0,0 +1,203 @@
+import { describe, expect, expectTypeOf, it } from 'vitest';
+import { safe, SafeAggregateError, TraverseError, type Safe, type SafeResult } from '../src';
+
+const fail = (message: string) =>
+  safe<number>(() => {
+    throw new Error(message);
+  });
+
+const delay = <T>(value: T, ms: number) => new Promise<T>((resolve) => setTimeout(() => resolve(value), ms));
+
+const delayFail = (message: string, ms: number) =>
+  safe(() =>
+    delay(null, ms).then((): number => {
+      throw new Error(message);
+    })
+  );
+
+describe('combinators', () => {
+  describe('safe.all', () => {
+    it('combines a sync tuple', () => {
+      const result = safe.all([safe(1), safe('a')]);
+      expectTypeOf(result).toEqualTypeOf<Safe<[number, string], Error>>();
+      expect(result.unwrap()).toEqual([1, 'a']);
+    });
+
+    it('combines a record', () => {
+      const result = safe.all({ a: safe(1), b: safe(true) });
+      expectTypeOf(result).toEqualTypeOf<Safe<{ a: number; b: boolean }, Error>>();
+      expect(result.unwrap()).toEqual({ a: 1, b: true });
+    });
+
+    it('becomes async when any input is async', async () => {
+      const result = safe.all([safe(1), safe(() => delay('a', 5))]);
+      expectTypeOf(result).toEqualTypeOf<Safe<Promise<[number, string]>, Error>>();
+      expect(await result.unwrap()).toEqual([1, 'a']);
+    });
+
+    it('fails fast with the first error', () => {
+      const result = safe.all([safe(1), fail('first'), fail('second')]);
+      expect(() => result.unwrap()).toThrow('first');
+    });
+
+    it('fails fast on async inputs', async () => {
+      const result = safe.all([safe(() => delay(1, 50)), delayFail('async', 5)]);
+      await expect(result.unwrap()).rejects.toThrow('async');
+    });
+
+    it('handles an empty tuple', () => {
+      expect(safe.all([]).unwrap()).toEqual([]);
+    });
+
+    it('unions the failure types', () => {
+      class AError extends Error {
+        readonly kind = 'a';
+      }
+      class BError extends Error {
+        readonly kind = 'b';
+      }
+      const result = safe.all([safe<number, AError>(1), safe<string, BError>('b')]);
+      expectTypeOf(result).toEqualTypeOf<Safe<[number, string], AError | BError>>();
+    });
+  });
+
+  describe('safe.allSettled', () => {
+    it('collects every result', () => {
+      const error = new Error('x');
+      const result = safe.allSettled([
+        safe(1),
+        safe<string>(() => {
+          throw error;
+        }),
+      ]);
+      expectTypeOf(result).toEqualTypeOf<Safe<[SafeResult<number, Error>, SafeResult<string, Error>], never>>();
+      expect(result.unwrap()).toEqual([
+        { isOk: true, value: 1, error: undefined },
+        { isOk: false, error, value: undefined },
+      ]);
+    });
+
+    it('collects async results into a record', async () => {
+      const result = await safe.allSettled({ ok: safe(() => delay(1, 5)), bad: delayFail('bad', 1) }).unwrap();
+      expect(result.ok).toEqual({ isOk: true, value: 1, error: undefined });
+      expect(result.bad.isOk).toBe(false);
+      expect(result.bad.error?.message).toBe('bad');
+    });
+  });
+
+  describe('safe.any', () => {
+    it('returns the first success', () => {
+      expect(safe.any([fail('a'), safe(2), safe(3)]).unwrap()).toBe(2);
+    });
+
+    it('returns the first async success in time', async () => {
+      const result = safe.any([delayFail('a', 1), safe(() => delay('slow', 30)), safe(() => delay('fast', 5))]);
+      expect(await result.unwrap()).toBe('fast');
+    });
+
+    it('fails with an aggregate error when all fail', () => {
+      const result = safe.any([fail('a'), fail('b')]);
+      const error = result.match({ ok: () => undefined, err: (e) => e });
+      expect(error).toBeInstanceOf(SafeAggregateError);
+      expect(error?.errors.map((e) => e.message)).toEqual(['a', 'b']);
+    });
+
+    it('keeps input order in async aggregate errors', async () => {
+      const error = await safe.any([delayFail('a', 10), delayFail('b', 1)]).match({
+        ok: () => undefined,
+        err: (e) => e,
+      });
+      expect(error?.errors.map((e) => e.message)).toEqual(['a', 'b']);
+    });
+  });
+
+  describe('safe.race', () => {
+    it('settles with the first sync Safe', () => {
+      expect(safe.race([safe(1), safe(2)]).unwrap()).toBe(1);
+    });
+
+    it('sync Safes win over async ones', async () => {
+      expect(await safe.race([safe(() => delay('async', 1)), safe('sync')]).unwrap()).toBe('sync');
+    });
+
+    it('settles with the first async Safe, even on failure', async () => {
+      const result = safe.race([safe(() => delay('slow', 30)), delayFail('fast', 1)]);
+      await expect(result.unwrap()).rejects.toThrow('fast');
+    });
+
+    it('fails for empty input', () => {
+      expect(safe.race([]).isOk).toBe(false);
+    });
+  });
+  describe('safe.traverse', () => {
+    const double = (x: number) => safe(() => delay(x * 2, 5 - x));
+
+    it('maps items and keeps input order', async () => {
+      const result = safe.traverse([1, 2, 3], double);
+      expectTypeOf(result).toEqualTypeOf<Safe<Promise<number[]>, TraverseError<number, Error>>>();
+      expect(await result.unwrap()).toEqual([2, 4, 6]);
+    });
+
+    it('accepts sync Safes and passes the index', async () => {
+      expect(await safe.traverse(['a', 'b'], (x, i) => safe(`${i}${x}`)).unwrap()).toEqual(['0a', '1b']);
+    });
+
+    it('handles empty input', async () => {
+      expect(await safe.traverse([], double).unwrap()).toEqual([]);
+    });
+
+    it('limits concurrency', async () => {
+      let running = 0;
+      let peak = 0;
+      const track = (x: number) =>
+        safe(async () => {
+          peak = Math.max(peak, ++running);
+          await delay(null, 2);
+          running--;
+          return x;
+        });
+      expect(await safe.traverse([1, 2, 3, 4, 5], track, { concurrency: 2 }).unwrap()).toEqual([1, 2, 3, 4, 5]);
+      expect(peak).toBe(2);
+    });
+
+    it('rejects an invalid concurrency', async () => {
+      await expect(safe.traverse([1], double, { concurrency: 0 }).unwrap()).rejects.toThrow(RangeError);
+    });
+
+    it('fail-fast stops starting items and exposes partial results', async () => {
+      const started: number[] = [];
+      const work = (x: number) => {
+        started.push(x);
+        return x === 2 ? delayFail(`item ${x}`, 1) : safe(() => delay(x, 1));
+      };
+      const error = await safe
+        .traverse([1, 2, 3, 4], work, { concurrency: 2 })
+        .match({ ok: () => undefined, err: (e) => e });
+
+      expect(error).toBeInstanceOf(TraverseError);
+      expect(error).toBeInstanceOf(SafeAggregateError);
+      expect(error?.message).toBe('Item 1 failed: item 2');
+      expect(error?.errors.map((e) => e.message)).toEqual(['item 2']);
+      expect(error?.results[0]).toMatchObject({ isOk: true, value: 1 });
+      expect(started).not.toContain(4);
+    });
+
+    it('collect runs every item and keeps successes next to errors', async () => {
+      const work = (x: number) => (x % 2 ? fail(`odd ${x}`) : safe(x));
+      const error = await safe
+        .traverse([1, 2, 3, 4], work, { mode: 'collect', concurrency: 1 })
+        .match({ ok: () => undefined, err: (e) => e });
+
+      expect(error?.message).toBe('2 of 4 items failed');
+      expect(error?.errors.map((e) => e.message)).toEqual(['odd 1', 'odd 3']);
+      expect(error?.results.map((r) => (r?.isOk ? r.value : 'x'))).toEqual(['x', 2, 'x', 4]);
+    });
+
+    it('treats a throwing function as a failed item', async () => {
+      const result = safe.traverse([1], (): Safe<number> => {
+        throw new Error('thrown');
+      });
+      await expect(result.unwrap()).rejects.toThrow('Item 0 failed: thrown');
+    });
+  });
+});
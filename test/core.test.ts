@@ -1,6 +1,16 @@
-import { describe, expect, it, vi } from 'vitest';
-import { safe } from '../src';
+import { afterEach, describe, expect, expectTypeOf, it, vi } from 'vitest';
+import {
+  AbortError,
+  ContextError,
+  formatErrorTrail,
+  safe,
+  TimeoutError,
+  type Safe,
+  type SafeResult,
+  type SerializedSafeResult,
+} from '../src';
 import { safeEmpty, safeExec, safeValue } from '../src/core';
+import { createTestClock } from '../src/testing';
 
 describe('Safe', () => {
   // ─── Constructor ───────────────────────────────────────────────
@@ -259,6 +269,166 @@ describe('Safe', () => {
     });
   });
 
+  // ─── mapError ──────────────────────────────────────────────────
+
+  describe('mapError', () => {
+    class DomainError extends Error {
+      constructor(
+        readonly code: string,
+        readonly cause?: unknown
+      ) {
+        super(`Domain failure: ${code}`);
+      }
+    }
+
+    it('transforms the error and stays in error state', () => {
+      const low = new Error('ECONNRESET');
+      const chain = safe<number>(() => {
+        throw low;
+      }).mapError((e) => new DomainError('NETWORK', e));
+
+      expectTypeOf(chain).toEqualTypeOf<Safe<number, DomainError>>();
+      expect(chain.isOk).toBe(false);
+      const error = chain.match({ ok: () => undefined, err: (e) => e });
+      expect(error).toBeInstanceOf(DomainError);
+      expect(error?.code).toBe('NETWORK');
+      expect(error?.cause).toBe(low);
+    });
+
+    it('skips on success state', () => {
+      const fn = vi.fn(() => new DomainError('X'));
+      expect(safe(42).mapError(fn).unwrap()).toBe(42);
+      expect(fn).not.toHaveBeenCalled();
+    });
+
+    it('the new type flows into observeError and match', () => {
+      const codes: string[] = [];
+      const code = safe(() => {
+        throw new Error('fail');
+      })
+        .mapError(() => new DomainError('E1'))
+        .observeError((e) => codes.push(e.code))
+        .match({ ok: () => '', err: (e) => e.code });
+      expect(code).toBe('E1');
+      expect(codes).toEqual(['E1']);
+    });
+
+    it('awaits an async mapper and makes the chain async', async () => {
+      const chain = safe<number>(() => {
+        throw new Error('fail');
+      }).mapError(async (e) => new DomainError(e.message.toUpperCase()));
+
+      expectTypeOf(chain).toEqualTypeOf<Safe<Promise<number>, DomainError>>();
+      expect(await chain.match({ ok: () => '', err: (e) => e.code })).toBe('FAIL');
+    });
+
+    it('maps errors of an async chain', async () => {
+      const chain = safe(Promise.reject(new Error('boom'))).mapError((e) => new DomainError(e.message));
+      expectTypeOf(chain).toEqualTypeOf<Safe<Promise<never>, DomainError>>();
+      await expect(chain.unwrap()).rejects.toThrow('Domain failure: boom');
+    });
+
+    it('only maps to errors, and delivers the mapped error unchanged', () => {
+      const failing = safe(1).map(() => {
+        throw new Error('raw');
+      });
+      // @ts-expect-error - a plain object would be normalized into an Error
+      failing.mapError(() => ({ code: 'E1' }));
+
+      safe.configure({ normalizeError: (thrown) => new Error(`normalized: ${String(thrown)}`) });
+      try {
+        const mapped = new DomainError('E1');
+        expect(failing.mapError(() => mapped).match({ ok: () => undefined, err: (e) => e })).toBe(mapped);
+      } finally {
+        safe.configure({ normalizeError: undefined });
+      }
+    });
+
+    it('a throwing mapper replaces the error', () => {
+      expect(() =>
+        safe(() => {
+          throw new Error('first');
+        })
+          .mapError(() => {
+            throw new Error('mapper failed');
+          })
+          .unwrap()
+      ).toThrow('mapper failed');
+    });
+  });
+
+  // ─── ensure ────────────────────────────────────────────────────
+
+  describe('ensure', () => {
+    const isString = (x: unknown): x is string => typeof x === 'string';
+
+    it('passes the value through when the predicate holds', () => {
+      expect(
+        safe(5)
+          .ensure((x) => x > 0)
+          .unwrap()
+      ).toBe(5);
+    });
+
+    it('fails with a default error', () => {
+      expect(() =>
+        safe(-1)
+          .ensure((x) => x > 0)
+          .unwrap()
+      ).toThrow('Value did not satisfy the predicate');
+    });
+
+    it('fails with a message', () => {
+      expect(() =>
+        safe(-1)
+          .ensure((x) => x > 0, 'must be positive')
+          .unwrap()
+      ).toThrow('must be positive');
+    });
+
+    it('fails with an error instance or a factory', () => {
+      class RangeErr extends Error {
+        readonly kind = 'range';
+      }
+      const error = new RangeErr('bad');
+      const chain = safe(-1).ensure((x) => x > 0, error);
+      expectTypeOf(chain).toEqualTypeOf<Safe<number, Error | RangeErr>>();
+      expect(chain.match({ ok: () => undefined, err: (e) => e })).toBe(error);
+
+      const fromFactory = safe(-1).ensure(
+        (x) => x > 0,
+        (x) => new RangeErr(`got ${x}`)
+      );
+      expect(() => fromFactory.unwrap()).toThrow('got -1');
+    });
+
+    it('narrows the value type with a type guard', () => {
+      const chain = safe<string | number>('a').ensure(isString);
+      expectTypeOf(chain).toEqualTypeOf<Safe<string, Error>>();
+      expect(chain.map((s) => s.toUpperCase()).unwrap()).toBe('A');
+    });
+
+    it('narrows async chains', async () => {
+      const chain = safe(async (): Promise<string | null> => 'a').ensure((x): x is string => x !== null);
+      expectTypeOf(chain).toEqualTypeOf<Safe<Promise<string>, Error>>();
+      expect(await chain.unwrap()).toBe('a');
+    });
+
+    it('skips on error state', () => {
+      const predicate = vi.fn(() => true);
+      safe(() => {
+        throw new Error('fail');
+      }).ensure(predicate);
+      expect(predicate).not.toHaveBeenCalled();
+    });
+
+    it('filter is an alias with the same narrowing', () => {
+      const chain = safe<string | number>(1).filter(isString, 'Expected a string');
+      expectTypeOf(chain).toEqualTypeOf<Safe<string, Error>>();
+      expect(() => chain.unwrap()).toThrow('Expected a string');
+    });
+  });
+
   // ─── observe ───────────────────────────────────────────────────
 
   describe('observe', () => {
@@ -451,6 +621,31 @@ describe('Safe', () => {
     });
   });
 
+  // ─── toJSON ────────────────────────────────────────────────────
+
+  describe('toJSON', () => {
+    it('keeps the error when stringified', () => {
+      const json = JSON.parse(
+        JSON.stringify(
+          safe(() => {
+            throw new TypeError('bad');
+          })
+        )
+      );
+      expect(json).toMatchObject({ isOk: false, error: { name: 'TypeError', message: 'bad' } });
+    });
+
+    it('encodes ok values', () => {
+      expect(JSON.stringify(safe({ a: 1 }))).toBe('{"isOk":true,"value":{"a":1}}');
+    });
+
+    it('returns a Promise for async chains', async () => {
+      const json = safe(Promise.resolve(1)).toJSON();
+      expectTypeOf(json).toEqualTypeOf<Promise<SerializedSafeResult<number>>>();
+      expect(await json).toEqual({ isOk: true, value: 1 });
+    });
+  });
+
   // ─── isOk ──────────────────────────────────────────────────────
 
   describe('isOk', () => {
@@ -610,6 +805,818 @@ describe('Safe', () => {
       });
       expect(() => result.unwrap()).toThrow(error);
     });
+
+    it('keeps the original thrown value as cause', () => {
+      class Thrown {
+        constructor(readonly code: number) {}
+      }
+      const thrown = new Thrown(404);
+      const error = safe<number>(() => {
+        throw thrown;
+      }).match({ ok: () => undefined, err: (e) => e });
+
+      expect(error).toBeInstanceOf(Error);
+      expect(error?.message).toBe('{"code":404}');
+      expect((error as { cause?: unknown }).cause).toBe(thrown);
+    });
+
+    it('keeps cyclic values that cannot be stringified', () => {
+      const cyclic: Record<string, unknown> = {};
+      cyclic.self = cyclic;
+      const error = safe<number>(() => {
+        throw cyclic;
+      }).match({ ok: () => undefined, err: (e) => e });
+
+      expect(error?.message).toBe('Unknown error');
+      expect((error as { cause?: unknown }).cause).toBe(cyclic);
+    });
+
+    describe('safe.configure({ normalizeError })', () => {
+      class AppError extends Error {
+        constructor(readonly thrown: unknown) {
+          super(`App error: ${String(thrown)}`);
+        }
+      }
+
+      afterEach(() => safe.configure({ normalizeError: undefined }));
+
+      it('maps thrown values with the configured normalizer', () => {
+        safe.configure({ normalizeError: (thrown) => new AppError(thrown) });
+        const error = safe<number>(() => {
+          throw 'boom';
+        }).match({ ok: () => undefined, err: (e) => e });
+
+        expect(error).toBeInstanceOf(AppError);
+        expect((error as AppError).thrown).toBe('boom');
+      });
+
+      it('normalizes each value once as it propagates', () => {
+        const normalizeError = vi.fn((thrown: unknown) => new AppError(thrown));
+        safe.configure({ normalizeError });
+
+        const error = safe<number>(() => {
+          throw 'boom';
+        })
+          .map((x) => x)
+          .ifOk(() => {})
+          .match({ ok: () => undefined, err: (e) => e });
+
+        expect(normalizeError).toHaveBeenCalledTimes(1);
+        expect(error?.message).toBe('App error: boom');
+      });
+
+      it('can defer to the default normalizer', async () => {
+        safe.configure({
+          normalizeError: (thrown, normalize) =>
+            typeof thrown === 'number' ? new AppError(thrown) : normalize(thrown),
+        });
+
+        const typeError = new TypeError('kept');
+        expect(
+          safe<number>(() => {
+            throw typeError;
+          }).match({ ok: () => undefined, err: (e) => e })
+        ).toBe(typeError);
+        await expect(safe(() => Promise.reject(7)).unwrap()).rejects.toBeInstanceOf(AppError);
+      });
+
+      it('restores the default when reset', () => {
+        safe.configure({ normalizeError: (thrown) => new AppError(thrown) });
+        safe.configure({ normalizeError: undefined });
+        expect(() =>
+          safe(() => {
+            throw 'plain';
+          }).unwrap()
+        ).toThrow(new Error('plain'));
+      });
+    });
+  });
+
+  // ─── Typed Errors ──────────────────────────────────────────────
+
+  describe('Typed Errors', () => {
+    class NotFoundError extends Error {
+      readonly kind = 'not-found';
+    }
+    class DbError extends Error {
+      readonly kind = 'db';
+    }
+
+    const isNotFound = (e: unknown): e is NotFoundError => e instanceof NotFoundError;
+
+    it('defaults the failure type to Error', () => {
+      expectTypeOf(safe(1)).toEqualTypeOf<Safe<number, Error>>();
+      safe(1).observeError((e) => expectTypeOf(e).toEqualTypeOf<Error>());
+    });
+
+    it('rejects failure types that are not errors, since thrown values are normalized', () => {
+      // @ts-expect-error - a thrown 'NOT_FOUND' reaches the chain as an Error
+      safe<number, 'NOT_FOUND'>(() => {
+        throw 'NOT_FOUND';
+      });
+      // @ts-expect-error - results carry errors too
+      expectTypeOf<SafeResult<number, { code: string }>>();
+
+      const error = safe<number>(() => {
+        throw 'NOT_FOUND';
+      }).match({ ok: () => undefined, err: (e) => e });
+      expect(error).toBeInstanceOf(Error);
+      expect(error?.message).toBe('NOT_FOUND');
+    });
+
+    it('declared failure type flows into match and observeError', () => {
+      const chain = safe<number, NotFoundError>(() => {
+        throw new NotFoundError('missing');
+      }).map((x) => x + 1);
+
+      expectTypeOf(chain).toEqualTypeOf<Safe<number, NotFoundError>>();
+
+      const kind = chain
+        .observeError((e) => expectTypeOf(e).toEqualTypeOf<NotFoundError>())
+        .match({ ok: () => 'ok', err: (e) => e.kind });
+      expect(kind).toBe('not-found');
+    });
+
+    it('widens when a step declares new failures', () => {
+      const chain = safe<number, NotFoundError>(1).map<string, DbError>((x) => {
+        throw new DbError(String(x));
+      });
+      expectTypeOf(chain).toEqualTypeOf<Safe<string, NotFoundError | DbError>>();
+      expect(chain.match({ ok: () => '', err: (e) => e.kind })).toBe('db');
+    });
+
+    it('flatMap merges the inner failure type', () => {
+      const load = (id: number) =>
+        safe<string, DbError>(() => {
+          throw new DbError(`db ${id}`);
+        });
+      const chain = safe<number, NotFoundError>(1).flatMap(load);
+      expectTypeOf(chain).toEqualTypeOf<Safe<string, NotFoundError | DbError>>();
+      expect(chain.isOk).toBe(false);
+    });
+
+    it('flatMap keeps async inference', async () => {
+      const chain = safe<number, NotFoundError>(1).flatMap((x) => safe<Promise<number>, DbError>(async () => x * 2));
+      expectTypeOf(chain).toEqualTypeOf<Safe<Promise<number>, NotFoundError | DbError>>();
+      expect(await chain.unwrap()).toBe(2);
+    });
+
+    it('recover with a guard narrows the failure type', () => {
+      const recovered = safe<string, NotFoundError | DbError>(() => {
+        throw new NotFoundError('missing');
+      }).recover(isNotFound, () => 'guest');
+
+      expectTypeOf(recovered).toEqualTypeOf<Safe<string, DbError>>();
+      expect(recovered.unwrap()).toBe('guest');
+    });
+
+    it('recover with a guard passes unmatched errors through', () => {
+      const fn = vi.fn(() => 'guest');
+      const error = new DbError('down');
+      const result = safe<string, NotFoundError | DbError>(() => {
+        throw error;
+      })
+        .recover(isNotFound, fn)
+        .match({ ok: () => undefined, err: (e) => e });
+
+      expect(fn).not.toHaveBeenCalled();
+      expect(result).toBe(error);
+    });
+
+    it('full recover resets the failure type', () => {
+      const recovered = safe<string, NotFoundError>('x').recover(() => 'guest');
+      expectTypeOf(recovered).toEqualTypeOf<Safe<string, Error>>();
+    });
+
+    it('async chains keep the failure type', async () => {
+      const chain = safe<number, DbError>(1).map(async () => {
+        throw new DbError('async');
+      });
+      expectTypeOf(chain).toEqualTypeOf<Safe<Promise<never>, DbError>>();
+      expect(await chain.match({ ok: () => '', err: (e) => e.kind })).toBe('db');
+    });
+  });
+
+  // ─── Cancellation ──────────────────────────────────────────────
+
+  describe('Cancellation', () => {
+    it('skips pending steps once the signal aborts', async () => {
+      const controller = new AbortController();
+      const after = vi.fn();
+      const chain = safe(1)
+        .withSignal(controller.signal)
+        .map(async (x) => {
+          controller.abort();
+          return x + 1;
+        })
+        .map(after);
+
+      const error = await chain.match({ ok: () => undefined, err: (e) => e });
+      expect(error).toBeInstanceOf(AbortError);
+      expect(after).not.toHaveBeenCalled();
+    });
+
+    it('settles immediately when the signal was already aborted', () => {
+      const fn = vi.fn((x: number) => x);
+      const chain = safe(() => 1, { signal: AbortSignal.abort('stop') }).map(fn);
+      const error = chain.match({ ok: () => undefined, err: (e) => e });
+
+      expect(fn).not.toHaveBeenCalled();
+      expect(error).toBeInstanceOf(AbortError);
+      expect((error as AbortError).reason).toBe('stop');
+    });
+
+    it('keeps the options of a chain started from undefined', () => {
+      const chain = safe(undefined, { signal: AbortSignal.abort('stop') });
+      expect(chain.isOk).toBe(false);
+      expect(chain.match({ ok: () => undefined, err: (e) => e })).toBeInstanceOf(AbortError);
+    });
+
+    it('abandons an in-flight step when the signal aborts', async () => {
+      const controller = new AbortController();
+      const chain = safe(() => new Promise<number>(() => {}), { signal: controller.signal });
+      setTimeout(() => controller.abort(), 5);
+      await expect(chain.unwrap()).rejects.toBeInstanceOf(AbortError);
+    });
+
+    it('withSignal races a pending chain', async () => {
+      const controller = new AbortController();
+      const chain = safe(() => new Promise<number>(() => {})).withSignal(controller.signal);
+      controller.abort();
+      await expect(chain.unwrap()).rejects.toBeInstanceOf(AbortError);
+    });
+
+    it('passes the signal to step callbacks', () => {
+      const controller = new AbortController();
+      const seen: (AbortSignal | undefined)[] = [];
+      safe((context) => seen.push(context?.signal), { signal: controller.signal })
+        .map((_, context) => seen.push(context?.signal))
+        .effect((_, context) => seen.push(context?.signal))
+        .flatMap((_, context) => safe(seen.push(context?.signal)))
+        .map(() => {
+          throw new Error('fail');
+        })
+        .recover((_, context) => seen.push(context?.signal));
+
+      expect(seen).toEqual(Array(5).fill(controller.signal));
+    });
+
+    it('does not pass a signal when none is attached', () => {
+      const fn = vi.fn();
+      safe(1).map(fn);
+      expect(fn).toHaveBeenCalledWith(1);
+    });
+
+    it('observers see the AbortError and orElse still falls back', () => {
+      const observed = vi.fn();
+      const result = safe(1).withSignal(AbortSignal.abort()).observeError(observed).orElse(0);
+
+      expect(observed).toHaveBeenCalledWith(expect.any(AbortError));
+      expect(result).toBe(0);
+    });
+
+    it('recover does not run after abort', () => {
+      const fn = vi.fn(() => 0);
+      const chain = safe(1).withSignal(AbortSignal.abort()).recover(fn);
+      expect(fn).not.toHaveBeenCalled();
+      expect(chain.isOk).toBe(false);
+    });
+
+    const deferred = () => {
+      let resolve!: (value: number) => void;
+      const promise = new Promise<number>((r) => (resolve = r));
+      return { promise, resolve };
+    };
+
+    it('withSignal keeps the signal the chain already has', async () => {
+      const outer = new AbortController();
+      const step = deferred();
+      const after = vi.fn();
+      const chain = safe(1, { signal: outer.signal })
+        .withSignal(new AbortController().signal)
+        .map(() => step.promise)
+        .map(after);
+
+      outer.abort();
+      step.resolve(2);
+      expect(await chain.match({ ok: () => undefined, err: (e) => e })).toBeInstanceOf(AbortError);
+      expect(after).not.toHaveBeenCalled();
+    });
+
+    it('withSignal inside a deadline does not outlive it', async () => {
+      const clock = createTestClock();
+      safe.configure({ clock });
+      try {
+        const step = deferred();
+        const after = vi.fn();
+        const chain = safe.deadline(10, () =>
+          safe(1)
+            .withSignal(new AbortController().signal)
+            .map(() => step.promise)
+            .map(after)
+        );
+
+        await clock.advance(10);
+        step.resolve(2);
+        expect(await chain.match({ ok: () => undefined, err: (e) => e })).toBeInstanceOf(TimeoutError);
+        await clock.advance(0);
+        expect(after).not.toHaveBeenCalled();
+      } finally {
+        safe.configure({ clock: undefined });
+      }
+    });
+
+    it('adds AbortError to the failure type', () => {
+      expectTypeOf(safe(1).withSignal(new AbortController().signal)).toEqualTypeOf<Safe<number, Error | AbortError>>();
+    });
+
+    it('is unaffected by a signal that never aborts', async () => {
+      const controller = new AbortController();
+      const result = await safe(1)
+        .withSignal(controller.signal)
+        .map(async (x) => x + 1)
+        .unwrap();
+      expect(result).toBe(2);
+    });
+  });
+
+  // ─── Timeouts ──────────────────────────────────────────────────
+
+  describe('Timeouts', () => {
+    const sleep = <T>(ms: number, value?: T) => new Promise<T>((resolve) => setTimeout(() => resolve(value as T), ms));
+
+    it('timeout fails a chain that takes too long', async () => {
+      const after = vi.fn();
+      const chain = safe(() => sleep(50, 1))
+        .timeout(5)
+        .map(after);
+
+      const error = await chain.match({ ok: () => undefined, err: (e) => e });
+      expect(error).toBeInstanceOf(TimeoutError);
+      expect((error as TimeoutError).ms).toBe(5);
+      expect(after).not.toHaveBeenCalled();
+    });
+
+    it('timeout passes a chain that settles in time', async () => {
+      expect(
+        await safe(() => sleep(1, 1))
+          .timeout(50)
+          .unwrap()
+      ).toBe(1);
+    });
+
+    it('timeout keeps sync chains sync', () => {
+      const chain = safe(1).timeout(10);
+      expect(chain.unwrap()).toBe(1);
+      expectTypeOf(chain).toEqualTypeOf<Safe<number, Error | TimeoutError>>();
+    });
+
+    it('deadline fails with TimeoutError and aborts the signal', async () => {
+      let received: AbortSignal | undefined;
+      const chain = safe.deadline(5, () =>
+        safe(1).map((x, context) => {
+          received = context?.signal;
+          return sleep(50, x);
+        })
+      );
+
+      await expect(chain.unwrap()).rejects.toBeInstanceOf(TimeoutError);
+      expect(received?.aborted).toBe(true);
+    });
+
+    it('deadline passes a chain that settles in time', async () => {
+      expect(await safe.deadline(50, () => safe(() => sleep(1, 'done'))).unwrap()).toBe('done');
+    });
+
+    it('deadline keeps sync chains sync', () => {
+      expect(safe.deadline(50, () => safe(1).map((x) => x + 1)).unwrap()).toBe(2);
+    });
+
+    it('nested flatMap chains inherit the outer deadline', async () => {
+      const inner = vi.fn();
+      const chain = safe.deadline(5, () =>
+        safe(1).flatMap(() =>
+          safe(() => sleep(20))
+            .map(inner)
+            .map(() => 'inner')
+        )
+      );
+
+      await expect(chain.unwrap()).rejects.toBeInstanceOf(TimeoutError);
+      await sleep(30);
+      expect(inner).not.toHaveBeenCalled();
+    });
+
+    it('a nested deadline cannot outlive the outer one', async () => {
+      const chain = safe.deadline(5, () => safe.deadline(1000, () => safe(() => sleep(50, 1))));
+      const error = await chain.match({ ok: () => undefined, err: (e) => e });
+      expect(error).toBeInstanceOf(TimeoutError);
+      expect((error as TimeoutError).ms).toBe(5);
+    });
+
+    it('does not keep the deadline signal after settling', async () => {
+      const fn = vi.fn();
+      await safe
+        .deadline(50, () => safe(() => sleep(1, 1)))
+        .map(fn)
+        .unwrap();
+      expect(fn).toHaveBeenCalledWith(1);
+    });
+  });
+
+  // ─── Retry ─────────────────────────────────────────────────────
+
+  describe('retry', () => {
+    const flaky = (failures: number) => {
+      let calls = 0;
+      return vi.fn(() => {
+        calls++;
+        if (calls <= failures) throw new Error(`fail ${calls}`);
+        return calls;
+      });
+    };
+
+    it('re-runs the preceding steps until they succeed', () => {
+      const load = flaky(2);
+      const double = vi.fn((x: number) => x * 2);
+      const result = safe(load).map(double).retry({ maxTries: 3 });
+
+      expect(result.unwrap()).toBe(6);
+      expect(load).toHaveBeenCalledTimes(3);
+      expect(double).toHaveBeenCalledTimes(1);
+    });
+
+    it('keeps sync chains sync without a delay', () => {
+      const chain = safe(flaky(1)).retry();
+      expectTypeOf(chain).toEqualTypeOf<Safe<number, Error>>();
+      expect(chain.unwrap()).toBe(2);
+    });
+
+    it('fails with the last error after maxTries', () => {
+      const load = flaky(5);
+      const chain = safe(load).retry({ maxTries: 2 });
+      expect(() => chain.unwrap()).toThrow('fail 2');
+      expect(load).toHaveBeenCalledTimes(2);
+    });
+
+    it('does not re-run a successful chain', () => {
+      const load = vi.fn(() => 1);
+      safe(load).retry();
+      expect(load).toHaveBeenCalledTimes(1);
+    });
+
+    it('exposes the attempt number and last error to re-run steps', () => {
+      const seen: unknown[] = [];
+      safe(1)
+        .map((x, context) => {
+          seen.push([context?.attempt, context?.lastError]);
+          if (!context) throw new Error('first');
+          return x;
+        })
+        .retry();
+
+      expect(seen).toEqual([
+        [undefined, undefined],
+        [2, expect.objectContaining({ message: 'first' })],
+      ]);
+    });
+
+    it('treats a missing context as the first attempt, as the docs show', () => {
+      const fresh: boolean[] = [];
+      const run = (signal?: AbortSignal) =>
+        safe(1, { signal })
+          .map((x, context) => {
+            fresh.push((context?.attempt ?? 1) > 1);
+            if (fresh.length % 2) throw new Error('first');
+            return x;
+          })
+          .retry();
+
+      run();
+      run(new AbortController().signal);
+      expect(fresh).toEqual([false, true, false, true]);
+    });
+
+    it('retries async steps', async () => {
+      let calls = 0;
+      const result = await safe(1)
+        .map(async (x) => {
+          if (++calls < 3) throw new Error('async');
+          return x + calls;
+        })
+        .retry({ maxTries: 3 })
+        .unwrap();
+
+      expect(result).toBe(4);
+    });
+
+    it('becomes async with a delay', async () => {
+      const load = flaky(1);
+      const chain = safe(load).retry({ delay: 5 });
+      expectTypeOf(chain).toEqualTypeOf<Safe<Promise<number>, Error>>();
+      expect(chain.unwrap()).toBeInstanceOf(Promise);
+      expect(await chain.unwrap()).toBe(2);
+    });
+
+    it('only re-runs steps since the previous retry', () => {
+      const first = vi.fn(() => 1);
+      const second = flaky(1);
+      const result = safe(first).retry().map(second).retry();
+
+      expect(result.unwrap()).toBe(2);
+      expect(first).toHaveBeenCalledTimes(1);
+      expect(second).toHaveBeenCalledTimes(2);
+    });
+
+    it('stops retrying once the signal aborts', () => {
+      const controller = new AbortController();
+      const load = vi.fn(() => {
+        controller.abort();
+        throw new Error('fail');
+      });
+      const chain = safe(load, { signal: controller.signal }).retry({ maxTries: 5 });
+
+      expect(load).toHaveBeenCalledTimes(1);
+      expect(chain.isOk).toBe(false);
+    });
+
+    it('stops waiting for the delay once the signal aborts', async () => {
+      const clock = createTestClock();
+      safe.configure({ clock });
+      try {
+        const controller = new AbortController();
+        const load = vi.fn(() => {
+          throw new Error('fail');
+        });
+        const chain = safe(load, { signal: controller.signal }).retry({ maxTries: 3, delay: 500 });
+
+        await clock.advance(20);
+        controller.abort();
+        expect(await chain.match({ ok: () => undefined, err: (e) => e })).toBeInstanceOf(AbortError);
+        expect(clock.pending).toBe(0);
+        expect(load).toHaveBeenCalledTimes(1);
+      } finally {
+        safe.configure({ clock: undefined });
+      }
+    });
+
+    it('only retries errors accepted by retryIf and reports each retry', () => {
+      const onRetry = vi.fn();
+      const load = vi.fn((): number => {
+        throw load.mock.calls.length < 2 ? new Error('transient') : new TypeError('invalid');
+      });
+      const chain = safe(load).retry({ maxTries: 5, retryIf: (error) => !(error instanceof TypeError), onRetry });
+
+      expect(() => chain.unwrap()).toThrow(TypeError);
+      expect(load).toHaveBeenCalledTimes(2);
+      expect(onRetry).toHaveBeenCalledExactlyOnceWith(expect.objectContaining({ message: 'transient' }), 1, 0);
+    });
+  });
+
+  // ─── Lazy ──────────────────────────────────────────────────────
+
+  describe('Lazy', () => {
+    it('records steps without executing them', () => {
+      const fn = vi.fn(() => 1);
+      const map = vi.fn((x: number) => x + 1);
+      const effect = vi.fn();
+      const recover = vi.fn(() => 0);
+
+      safe.lazy(fn).map(map).effect(effect).recover(recover);
+
+      expect(fn).not.toHaveBeenCalled();
+      expect(map).not.toHaveBeenCalled();
+      expect(effect).not.toHaveBeenCalled();
+      expect(recover).not.toHaveBeenCalled();
+    });
+
+    it('runs on unwrap, match and orElse', () => {
+      const fn = vi.fn(() => 1);
+      const program = safe.lazy(fn).map((x) => x + 1);
+
+      expect(program.unwrap()).toBe(2);
+      expect(program.match({ ok: (v) => v * 10, err: () => 0 })).toBe(20);
+      expect(program.orElse(0)).toBe(2);
+      expect(fn).toHaveBeenCalledTimes(3);
+    });
+
+    it('runs with fresh execution each time', () => {
+      let count = 0;
+      const program = safe.lazy(() => ++count).map((x) => x * 10);
+
+      expect(program.unwrap()).toBe(10);
+      expect(program.unwrap()).toBe(20);
+    });
+
+    it('run returns an eager Safe', () => {
+      const fn = vi.fn(() => 1);
+      const program = safe.lazy(fn).map((x) => x + 1);
+      const result = program.run();
+
+      expect(fn).toHaveBeenCalledTimes(1);
+      expect(result.unwrap()).toBe(2);
+      expect(result.isOk).toBe(true);
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+
+    it('captures errors per run', () => {
+      let count = 0;
+      const program = safe.lazy(() => {
+        if (++count === 1) throw new Error('first');
+        return count;
+      });
+
+      expect(program.run().isOk).toBe(false);
+      expect(program.run().unwrap()).toBe(2);
+    });
+
+    it('supports async programs', async () => {
+      const fn = vi.fn(async () => 1);
+      const program = safe.lazy(fn).map((x) => x + 1);
+
+      expect(fn).not.toHaveBeenCalled();
+      expect(await program.unwrap()).toBe(2);
+      expect(await program.unwrap()).toBe(2);
+      expect(fn).toHaveBeenCalledTimes(2);
+    });
+
+    it('retries within each run', () => {
+      let calls = 0;
+      const program = safe
+        .lazy(() => {
+          if (++calls % 2 === 1) throw new Error('odd');
+          return calls;
+        })
+        .retry();
+
+      expect(calls).toBe(0);
+      expect(program.unwrap()).toBe(2);
+      expect(program.unwrap()).toBe(4);
+    });
+
+    it('runs once when combined', () => {
+      const fn = vi.fn(() => 1);
+      expect(safe.all([safe.lazy(fn), safe(2)]).unwrap()).toEqual([1, 2]);
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+
+    it('eager run returns an equivalent Safe', () => {
+      const fn = vi.fn(() => 1);
+      const chain = safe(fn);
+      expect(chain.run().unwrap()).toBe(1);
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  // ─── Context Labels ────────────────────────────────────────────
+
+  describe('context', () => {
+    const failing = () =>
+      safe<number>(() => {
+        throw new SyntaxError('Unexpected token');
+      });
+
+    it('wraps failures with the label and keeps the original error as cause', () => {
+      const chain = failing().context('parsing response');
+      expectTypeOf(chain).toEqualTypeOf<Safe<number, ContextError<Error>>>();
+
+      const error = chain.match({ ok: () => undefined, err: (e) => e });
+      expect(error).toBeInstanceOf(ContextError);
+      expect(error?.trail).toEqual(['parsing response']);
+      expect(error?.cause).toBeInstanceOf(SyntaxError);
+      expect(error?.message).toBe('parsing response: Unexpected token');
+    });
+
+    it('skips on success state', () => {
+      expect(safe(1).context('never shown').unwrap()).toBe(1);
+    });
+
+    it('builds a breadcrumb trail, outermost first', () => {
+      const chain = failing()
+        .context('parsing response')
+        .map((x) => x + 1)
+        .context('loading user profile');
+      expectTypeOf(chain).toEqualTypeOf<Safe<number, ContextError<Error>>>();
+
+      const error = chain.match({ ok: () => undefined, err: (e) => e });
+      expect(error?.trail).toEqual(['loading user profile', 'parsing response']);
+      expect(error?.cause).toBeInstanceOf(SyntaxError);
+      expect(error?.message).toBe('loading user profile: parsing response: Unexpected token');
+    });
+
+    it('labels failures of async chains', async () => {
+      const chain = safe(() => Promise.reject(new Error('timeout'))).context('fetching');
+      await expect(chain.unwrap()).rejects.toThrow('fetching: timeout');
+    });
+
+    it('formats the trail including nested causes', () => {
+      const error = failing()
+        .mapError((e) => Object.assign(new Error('bad payload'), { cause: e }))
+        .context('parsing response')
+        .context('loading user profile')
+        .match({ ok: () => undefined, err: (e) => e });
+
+      expect(formatErrorTrail(error)).toBe(
+        [
+          'loading user profile',
+          '  caused by: parsing response',
+          '  caused by: Error: bad payload',
+          '  caused by: SyntaxError: Unexpected token',
+        ].join('\n')
+      );
+    });
+
+    it('formats plain errors and values', () => {
+      expect(formatErrorTrail(new TypeError('x'))).toBe('TypeError: x');
+      expect(formatErrorTrail('oops')).toBe('oops');
+    });
+  });
+
+  // ─── Interop ───────────────────────────────────────────────────
+
+  describe('Interop', () => {
+    describe('constructors', () => {
+      it('fromPromise wraps an existing promise', async () => {
+        const chain = safe.fromPromise(Promise.resolve(2)).map((x) => x * 2);
+        expectTypeOf(chain).toEqualTypeOf<Safe<Promise<number>, Error>>();
+        expect(await chain.unwrap()).toBe(4);
+        await expect(safe.fromPromise(Promise.reject(new Error('nope'))).unwrap()).rejects.toThrow('nope');
+      });
+
+      it('fromCallback adapts node-style callbacks', async () => {
+        const read = (path: string, cb: (error: Error | null, data?: string) => void) =>
+          setTimeout(() => (path === 'ok' ? cb(null, 'content') : cb(new Error(`ENOENT ${path}`))), 0);
+
+        const ok = safe.fromCallback<string>((cb) => read('ok', cb));
+        expectTypeOf(ok).toEqualTypeOf<Safe<Promise<string>, Error>>();
+        expect(await ok.unwrap()).toBe('content');
+        await expect(safe.fromCallback<string>((cb) => read('missing', cb)).unwrap()).rejects.toThrow('ENOENT missing');
+      });
+
+      it('fromCallback captures synchronous throws', async () => {
+        const chain = safe.fromCallback(() => {
+          throw new Error('sync throw');
+        });
+        await expect(chain.unwrap()).rejects.toThrow('sync throw');
+      });
+
+      it('fromSettled converts settled results', async () => {
+        const [fulfilled, rejected] = await Promise.allSettled([Promise.resolve(1), Promise.reject(new Error('r'))]);
+        const ok = safe.fromSettled(fulfilled);
+        expectTypeOf(ok).toEqualTypeOf<Safe<number, Error>>();
+        expect(ok.unwrap()).toBe(1);
+        expect(() => safe.fromSettled(rejected).unwrap()).toThrow('r');
+      });
+
+      it('fromResult continues from a raw result and keeps the error', async () => {
+        const error = Object.assign(new Error('raw'), { code: 'E_RAW' });
+        const failed = safe.fromResult<number, Error & { code: string }>({ isOk: false, error });
+        expect(failed.match({ ok: () => '', err: (e) => e.code })).toBe('E_RAW');
+
+        const ok = safe.fromResult({ isOk: true, value: 3 });
+        expect(ok.map((x) => x + 1).unwrap()).toBe(4);
+
+        const async = safe.fromResult(Promise.resolve({ isOk: true as const, value: 'a' }));
+        expectTypeOf(async).toEqualTypeOf<Safe<Promise<string>, Error>>();
+        expect(await async.unwrap()).toBe('a');
+      });
+    });
+
+    describe('conversions', () => {
+      const failing = () =>
+        safe<number>(() => {
+          throw new Error('fail');
+        });
+
+      it('toPromise resolves or rejects', async () => {
+        const resolved = safe(1).toPromise();
+        expectTypeOf(resolved).toEqualTypeOf<Promise<number>>();
+        expect(await resolved).toBe(1);
+        expect(await safe(Promise.resolve('a')).toPromise()).toBe('a');
+        await expect(failing().toPromise()).rejects.toThrow('fail');
+      });
+
+      it('toSettled returns a PromiseSettledResult', async () => {
+        expect(safe(1).toSettled()).toEqual({ status: 'fulfilled', value: 1 });
+        expect(failing().toSettled()).toEqual({ status: 'rejected', reason: new Error('fail') });
+
+        const async = safe(Promise.resolve(2)).toSettled();
+        expectTypeOf(async).toEqualTypeOf<Promise<PromiseSettledResult<number>>>();
+        expect(await async).toEqual({ status: 'fulfilled', value: 2 });
+      });
+
+      it('toResult returns the raw SafeResult', async () => {
+        const result = safe(1).toResult();
+        expectTypeOf(result).toEqualTypeOf<SafeResult<number, Error>>();
+        expect(result).toEqual({ isOk: true, value: 1, error: undefined });
+        expect(failing().toResult()).toMatchObject({ isOk: false, error: new Error('fail') });
+        expect(await safe(Promise.resolve(2)).toResult()).toMatchObject({ isOk: true, value: 2 });
+      });
+
+      it('round-trips through fromResult', () => {
+        expect(safe.fromResult(safe(5).toResult()).unwrap()).toBe(5);
+      });
+    });
   });
 
   // ─── Integration ───────────────────────────────────────────────
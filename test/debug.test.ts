@@ -0,0 +1,120 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { formatStep, safe, type StepRecord } from '../src';
+
+describe('debug mode', () => {
+  afterEach(() => safe.configure({ debug: undefined }));
+
+  it('records nothing outside debug mode', () => {
+    expect(
+      safe(1)
+        .map((x) => x + 1)
+        .inspect()
+    ).toEqual({ steps: [] });
+  });
+
+  it('records each step with its status and outcome', () => {
+    safe.configure({ debug: true });
+    const error = new Error('Too small');
+    const { steps, failedAt } = safe(1)
+      .map((x) => x + 1)
+      .ensure((x) => x > 10, error)
+      .map((x) => x * 2)
+      .context('loading')
+      .recover(() => 0)
+      .inspect();
+
+    expect(steps.map(({ index, kind, label, status, outcome }) => ({ index, kind, label, status, outcome }))).toEqual([
+      { index: 0, kind: 'source', label: undefined, status: 'ran', outcome: 'ok' },
+      { index: 1, kind: 'map', label: undefined, status: 'ran', outcome: 'ok' },
+      { index: 2, kind: 'ensure', label: undefined, status: 'ran', outcome: 'error' },
+      { index: 3, kind: 'map', label: undefined, status: 'skipped', outcome: 'error' },
+      { index: 4, kind: 'context', label: 'loading', status: 'ran', outcome: 'error' },
+      { index: 5, kind: 'recover', label: undefined, status: 'ran', outcome: 'ok' },
+    ]);
+    expect(steps[1].value).toBe(2);
+    expect(steps[2].error).toBe(error);
+    expect(steps.every((step) => step.duration! >= 0)).toBe(true);
+    expect(failedAt).toBeUndefined();
+  });
+
+  it('times steps without a global performance', () => {
+    vi.stubGlobal('performance', undefined);
+    try {
+      safe.configure({ debug: true });
+      const { steps } = safe(1)
+        .map((x) => x + 1)
+        .inspect();
+      expect(steps.map((step) => step.outcome)).toEqual(['ok', 'ok']);
+      expect(steps.every((step) => step.duration! >= 0)).toBe(true);
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it('reports the step the error started at', () => {
+    safe.configure({ debug: true });
+    const { failedAt } = safe(1)
+      .map((x) => x + 1)
+      .map((): number => {
+        throw new Error('boom');
+      })
+      .mapError((e) => e)
+      .inspect();
+
+    expect(failedAt).toMatchObject({ index: 2, kind: 'map', outcome: 'error', error: new Error('boom') });
+  });
+
+  it('reports a failing source', () => {
+    safe.configure({ debug: true });
+    const { failedAt } = safe<number>(() => {
+      throw new Error('boom');
+    })
+      .map((x) => x + 1)
+      .inspect();
+
+    expect(failedAt).toMatchObject({ index: 0, kind: 'source', status: 'ran' });
+  });
+
+  it('waits for async chains to settle', async () => {
+    safe.configure({ debug: true });
+    const { steps } = await safe(() => new Promise<number>((resolve) => setTimeout(() => resolve(1), 20)))
+      .map((x) => x + 1)
+      .inspect();
+
+    expect(steps.map((step) => [step.kind, step.value])).toEqual([
+      ['source', 1],
+      ['map', 2],
+    ]);
+    expect(steps[0].duration).toBeGreaterThanOrEqual(15);
+  });
+
+  it('records the latest run of a lazy chain', () => {
+    safe.configure({ debug: true });
+    let calls = 0;
+    const chain = safe.lazy(() => ++calls).map((x) => x * 10);
+
+    chain.run();
+    expect(chain.inspect().steps.map((step) => step.value)).toEqual([2, 20]);
+  });
+
+  it('captures call sites', () => {
+    safe.configure({ debug: { callSites: true } });
+    const { steps } = safe(1)
+      .map((x) => x + 1)
+      .inspect();
+
+    expect(steps.map((step) => step.callSite)).toEqual([
+      expect.stringMatching(/debug\.test\.ts:\d+:\d+$/),
+      expect.stringMatching(/debug\.test\.ts:\d+:\d+$/),
+    ]);
+    expect(formatStep(steps[1])).toMatch(/^map #1 attached at .*debug\.test\.ts:\d+:\d+$/);
+  });
+
+  it('formats steps', () => {
+    const step: StepRecord = { index: 3, kind: 'context', label: 'loading', status: 'ran' };
+    expect(formatStep(step)).toBe('context "loading" #3');
+    expect(formatStep({ ...step, callSite: 'user-service.ts:42:7' })).toBe(
+      'context "loading" #3 attached at user-service.ts:42:7'
+    );
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, expect, expectTypeOf, it } from 'vitest';
+import { safe, type Safe } from '../src';
+
+function parse(input: string): number;
+function parse(input: number): string;
+function parse(input: string | number): number | string {
+  if (input === '') throw new Error('empty input');
+  return typeof input === 'string' ? Number(input) : String(input);
+}
+
+describe('safe.fn', () => {
+  it('keeps the parameter list and wraps the result', () => {
+    const add = safe.fn((a: number, b: number) => a + b);
+    expectTypeOf(add).toEqualTypeOf<(this: unknown, a: number, b: number) => Safe<number, Error>>();
+    expect(add(1, 2).unwrap()).toBe(3);
+  });
+
+  it('captures thrown errors', () => {
+    const parseJson = safe.fn(JSON.parse);
+    expect(parseJson('{"a":1}').unwrap()).toEqual({ a: 1 });
+    expect(parseJson('{').isOk).toBe(false);
+  });
+
+  it('handles async functions', async () => {
+    const load = safe.fn(async (id: number) => {
+      if (id < 0) throw new Error('invalid id');
+      return { id };
+    });
+    expectTypeOf(load(1)).toEqualTypeOf<Safe<Promise<{ id: number }>, Error>>();
+    expect(await load(1).unwrap()).toEqual({ id: 1 });
+    await expect(load(-1).unwrap()).rejects.toThrow('invalid id');
+  });
+
+  it('keeps overloads', () => {
+    const safeParse = safe.fn(parse);
+    expectTypeOf(safeParse('1')).toEqualTypeOf<Safe<number, Error>>();
+    expectTypeOf(safeParse(1)).toEqualTypeOf<Safe<string, Error>>();
+    expect(safeParse('42').unwrap()).toBe(42);
+    expect(safeParse(42).unwrap()).toBe('42');
+    expect(() => safeParse('').unwrap()).toThrow('empty input');
+  });
+
+  it('forwards this', () => {
+    const counter = {
+      count: 1,
+      increment(this: { count: number }, by: number) {
+        this.count += by;
+        return this.count;
+      },
+    };
+    const safeCounter = { ...counter, safeIncrement: safe.fn(counter.increment) };
+
+    expect(safeCounter.safeIncrement(2).unwrap()).toBe(3);
+    expect(safeCounter.count).toBe(3);
+  });
+
+  it('declares the failure type', () => {
+    class ParseError extends Error {}
+    const strict = safe.fn<(input: string) => number, ParseError>((input) => {
+      throw new ParseError(input);
+    });
+    expectTypeOf(strict('x')).toEqualTypeOf<Safe<number, ParseError>>();
+    expect(strict('x').match({ ok: () => false, err: (e) => e instanceof ParseError })).toBe(true);
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, expect, expectTypeOf, it, vi } from 'vitest';
+import { safe, type Safe } from '../src';
+
+class NotFoundError extends Error {
+  readonly kind = 'not-found';
+}
+class DbError extends Error {
+  readonly kind = 'db';
+}
+
+type User = { id: number; orgId: number };
+type Org = { id: number; name: string };
+
+const loadUser = (id: number) => safe<User, NotFoundError>({ id, orgId: id * 10 });
+const loadOrg = (id: number) => safe<Org, DbError>({ id, name: `org-${id}` });
+const loadOrgAsync = (id: number) => safe<Promise<Org>, DbError>(async () => ({ id, name: `org-${id}` }));
+
+describe('safe.gen', () => {
+  describe('sync generators', () => {
+    it('runs dependent steps and returns the final value', () => {
+      const result = safe.gen(function* () {
+        const user = yield* loadUser(1);
+        const org = yield* loadOrg(user.orgId);
+        return { user, org };
+      });
+
+      expectTypeOf(result).toEqualTypeOf<Safe<{ user: User; org: Org }, NotFoundError | DbError>>();
+      expect(result.unwrap()).toEqual({ user: { id: 1, orgId: 10 }, org: { id: 10, name: 'org-10' } });
+    });
+
+    it('short-circuits on the first failed Safe', () => {
+      const after = vi.fn();
+      const result = safe.gen(function* () {
+        const user = yield* loadUser(1);
+        yield* safe<number, DbError>(() => {
+          throw new DbError('down');
+        });
+        after();
+        return user;
+      });
+
+      expect(result.isOk).toBe(false);
+      expect(result.match({ ok: () => '', err: (e) => e.kind })).toBe('db');
+      expect(after).not.toHaveBeenCalled();
+    });
+
+    it('runs finally blocks when short-circuiting', () => {
+      const cleanup = vi.fn();
+      safe.gen(function* () {
+        try {
+          yield* safe(() => {
+            throw new Error('fail');
+          });
+        } finally {
+          cleanup();
+        }
+      });
+      expect(cleanup).toHaveBeenCalledTimes(1);
+    });
+
+    it('captures errors thrown by the generator body', () => {
+      const result = safe.gen(function* () {
+        const user = yield* loadUser(1);
+        if (user.id === 1) throw new Error('body failed');
+        return user;
+      });
+      expect(() => result.unwrap()).toThrow('body failed');
+    });
+
+    it('becomes async when a yielded Safe is async', async () => {
+      const result = safe.gen(function* () {
+        const user = yield* loadUser(2);
+        const org = yield* loadOrgAsync(user.orgId);
+        return org.name;
+      });
+
+      expectTypeOf(result).toEqualTypeOf<Safe<Promise<string>, NotFoundError | DbError>>();
+      expect(await result.unwrap()).toBe('org-20');
+    });
+
+    it('defaults to Error for untyped Safes', () => {
+      const result = safe.gen(function* () {
+        const a = yield* safe(1);
+        const b = yield* safe(() => 2);
+        return a + b;
+      });
+      expectTypeOf(result).toEqualTypeOf<Safe<number, Error>>();
+      expect(result.unwrap()).toBe(3);
+    });
+  });
+
+  describe('async generators', () => {
+    it('awaits promises and yielded Safes', async () => {
+      const result = safe.gen(async function* () {
+        const user = yield* loadUser(3);
+        const org = yield* loadOrgAsync(user.orgId);
+        const suffix = await Promise.resolve('!');
+        return org.name + suffix;
+      });
+
+      expectTypeOf(result).toEqualTypeOf<Safe<Promise<string>, NotFoundError | DbError>>();
+      expect(await result.unwrap()).toBe('org-30!');
+    });
+
+    it('short-circuits and runs finally blocks', async () => {
+      const cleanup = vi.fn();
+      const after = vi.fn();
+      const result = safe.gen(async function* () {
+        try {
+          yield* safe<Promise<number>, DbError>(() => Promise.reject(new DbError('down')));
+          after();
+        } finally {
+          cleanup();
+        }
+      });
+
+      await expect(result.unwrap()).rejects.toThrow('down');
+      expect(after).not.toHaveBeenCalled();
+      expect(cleanup).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  it('continues as a regular chain', () => {
+    const result = safe
+      .gen(function* () {
+        const user = yield* loadUser(4);
+        return user.orgId;
+      })
+      .map((orgId) => orgId + 1)
+      .recover(() => 0);
+    expect(result.unwrap()).toBe(41);
+  });
+});
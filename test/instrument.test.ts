@@ -0,0 +1,140 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { safe, type InstrumentationHooks, type StepEndInfo } from '../src';
+
+describe('safe.instrument', () => {
+  let stop: (() => void) | undefined;
+  afterEach(() => stop?.());
+
+  const record = (hooks: InstrumentationHooks = {}) => {
+    const ends: StepEndInfo[] = [];
+    stop = safe.instrument({ onStepEnd: (step) => ends.push(step), ...hooks });
+    return ends;
+  };
+
+  it('reports each step with its kind, duration and outcome', () => {
+    const ends = record();
+    safe(1)
+      .map((x) => x + 1)
+      .ifOk(() => {})
+      .ensure((x) => x > 10, 'Too small')
+      .observeError(() => {});
+
+    expect(ends.map(({ kind, outcome }) => [kind, outcome])).toEqual([
+      ['source', 'ok'],
+      ['map', 'ok'],
+      ['effect', 'ok'],
+      ['ensure', 'error'],
+      ['observeError', 'error'],
+    ]);
+    expect(ends.every((step) => step.duration >= 0)).toBe(true);
+    expect(ends[3].error).toEqual(new Error('Too small'));
+  });
+
+  it('does not report skipped steps', () => {
+    const ends = record();
+    safe(() => {
+      throw new Error('fail');
+    })
+      .map((x) => x)
+      .recover(() => 0)
+      .mapError((e) => e);
+
+    expect(ends.map((step) => step.kind)).toEqual(['source', 'recover']);
+  });
+
+  it('reports the source but not the steps operators add internally', () => {
+    const ends = record();
+    safe(() => 1)
+      .withSignal(new AbortController().signal)
+      .map((x) => x);
+
+    expect(ends.map((step) => step.kind)).toEqual(['source', 'map']);
+  });
+
+  it('reports failing sources to onError', async () => {
+    const onError = vi.fn();
+    record({ onError });
+    const error = new Error('boom');
+
+    safe(() => {
+      throw error;
+    }).recover(() => 0);
+    await safe.fromPromise(Promise.reject(error)).orElse(0);
+    safe.fromResult({ isOk: false, error });
+
+    expect(onError.mock.calls).toEqual(Array(3).fill([expect.objectContaining({ kind: 'source', error })]));
+  });
+
+  it('reports context labels', () => {
+    const ends = record();
+    safe<number>(() => {
+      throw new Error('fail');
+    }).context('loading user');
+    expect(ends).toEqual([
+      expect.objectContaining({ kind: 'source', outcome: 'error' }),
+      expect.objectContaining({ kind: 'context', label: 'loading user', outcome: 'error' }),
+    ]);
+  });
+
+  it('calls onStepStart, onError and onRecover', () => {
+    const onStepStart = vi.fn();
+    const onError = vi.fn();
+    const onRecover = vi.fn();
+    record({ onStepStart, onError, onRecover });
+
+    const error = new Error('boom');
+    safe(1)
+      .map(() => {
+        throw error;
+      })
+      .recover(() => 2);
+
+    expect(onStepStart.mock.calls.map(([step]) => step.kind)).toEqual(['source', 'map', 'recover']);
+    expect(onError).toHaveBeenCalledOnce();
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ kind: 'map', error }));
+    expect(onRecover).toHaveBeenCalledWith(
+      expect.objectContaining({ kind: 'recover', outcome: 'ok', recovered: error })
+    );
+  });
+
+  it('measures async steps until they settle', async () => {
+    const ends = record();
+    await safe(1)
+      .map(async (x) => {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        return x;
+      })
+      .unwrap();
+
+    expect(ends.map((step) => step.kind)).toEqual(['source', 'map']);
+    expect(ends[1].duration).toBeGreaterThanOrEqual(15);
+  });
+
+  it('reports the normalized error', () => {
+    const ends = record();
+    safe(1).map(() => {
+      throw 'plain';
+    });
+    expect(ends[1].error).toBeInstanceOf(Error);
+  });
+
+  it('ignores errors thrown by hooks', () => {
+    record({
+      onStepStart: () => {
+        throw new Error('hook failed');
+      },
+    });
+    expect(
+      safe(1)
+        .map((x) => x + 1)
+        .unwrap()
+    ).toBe(2);
+  });
+
+  it('stops reporting once unregistered', () => {
+    const ends = record();
+    stop?.();
+    safe(1).map((x) => x);
+    expect(ends).toEqual([]);
+  });
+});
@@ -1,4 +1,5 @@
-import { describe, it, expect, vi } from 'vitest';
+import { describe, it, expect, expectTypeOf, vi } from 'vitest';
+import { formatErrorTrail, PipeError, safe, safeResult, step, when, type Safe, type SafeResult } from '../src';
 import { safePipe } from '../src/pipe';
 
 describe('safePipe', () => {
@@ -115,4 +116,222 @@ describe('safePipe', () => {
 
     expect(result.unwrap()).toBe('The number is 12');
   });
+
+  it('keeps a union input type', () => {
+    const kind = safePipe(
+      (value: string | number) => value,
+      (value) => typeof value
+    );
+
+    expect(kind(1).unwrap()).toBe('number');
+    expectTypeOf(kind).parameter(0).toEqualTypeOf<string | number>();
+  });
+
+  it('flattens steps that return a Safe', () => {
+    const parse = safePipe(
+      (text: string) => safe(() => JSON.parse(text) as { id: number }),
+      (data) => data.id,
+      (id) => id * 2
+    );
+
+    expect(parse('{"id":21}').unwrap()).toBe(42);
+    expect(parse('{').isOk).toBe(false);
+    expectTypeOf(parse).returns.toEqualTypeOf<Safe<number, Error>>();
+  });
+
+  it('flattens steps that return a SafeResult', () => {
+    class NegativeError extends Error {}
+    const check = (x: number): SafeResult<number, NegativeError> =>
+      x < 0 ? safeResult.fail(new NegativeError()) : safeResult.ok(x);
+    const spy = vi.fn((x: number) => x);
+    const piped = safePipe((x: number) => x - 1, check, spy);
+
+    expect(piped(5).unwrap()).toBe(4);
+    expect(piped(0).match({ ok: () => null, err: (e) => e })).toBeInstanceOf(NegativeError);
+    expect(spy).toHaveBeenCalledTimes(1);
+    expectTypeOf(piped).returns.toEqualTypeOf<Safe<number, Error | NegativeError>>();
+  });
+
+  it('passes through payloads that only look like a SafeResult', () => {
+    const health = { isOk: false, error: 'db down', value: 3 };
+    const status = { isOk: false, error: 'db down', checkedAt: 1 };
+    const piped = safePipe((x: number) => (x ? health : status));
+
+    expect(piped(1).unwrap()).toBe(health);
+    expect(piped(0).unwrap()).toBe(status);
+    expect(
+      when(
+        (x: number) => x > 0,
+        () => health
+      )(1)
+    ).toBe(health);
+  });
+
+  it('keeps the pipe async when a step returns an async Safe', async () => {
+    const piped = safePipe(
+      (id: number) => safe(async () => ({ id, name: 'Alice' })),
+      (user) => user.name,
+      (name) => name.toUpperCase()
+    );
+
+    expect(await piped(1).unwrap()).toBe('ALICE');
+    expectTypeOf(piped).returns.toEqualTypeOf<Safe<Promise<string>, Error>>();
+  });
+
+  it('infers unannotated steps from the previous step in long pipes', async () => {
+    const piped = safePipe(
+      (x: number) => x + 1,
+      (a) => `${a}`,
+      (b) => b.length,
+      (c) => safe(c > 0),
+      (d) => [d],
+      async (e) => e[0],
+      (f) => String(f),
+      (g) => g.toUpperCase(),
+      (h) => safeResult.ok(h.length),
+      (i) => i * 2,
+      (j) => ({ j }),
+      (k) => k.j + 1
+    );
+
+    expect(await piped(1).unwrap()).toBe(9);
+    expectTypeOf(piped).returns.toEqualTypeOf<Safe<Promise<number>, Error>>();
+  });
+
+  it('accepts pipes past the inferred length when every step is annotated', () => {
+    const inc = (x: number) => x + 1;
+    const piped = safePipe(
+      inc,
+      inc,
+      inc,
+      inc,
+      inc,
+      inc,
+      inc,
+      inc,
+      inc,
+      inc,
+      inc,
+      inc,
+      inc,
+      inc,
+      inc,
+      inc,
+      inc,
+      inc,
+      inc,
+      inc,
+      (x: number) => `Result: ${x}`
+    );
+
+    expect(piped(0).unwrap()).toBe('Result: 20');
+    expectTypeOf(piped).returns.toEqualTypeOf<Safe<string, Error>>();
+  });
+
+  it('accepts any number of annotated steps', async () => {
+    const inc = (x: number) => x + 1;
+    const piped = safePipe(
+      inc,
+      inc,
+      (x: number) => safe(x * 2),
+      inc,
+      async (x: number) => x + 1,
+      inc,
+      (x: number) => safeResult.ok(x),
+      inc,
+      inc,
+      (x: number) => `Result: ${x}`
+    );
+
+    expect(await piped(0).unwrap()).toBe('Result: 9');
+    expectTypeOf(piped).parameter(0).toEqualTypeOf<number>();
+    expectTypeOf(piped).returns.toEqualTypeOf<Safe<Promise<string>, Error>>();
+  });
+
+  describe('named steps', () => {
+    const parse = (text: string) => JSON.parse(text) as { id: number };
+    const validate = (data: { id: number }) => {
+      if (data.id < 0) throw new RangeError('Negative id');
+      return data;
+    };
+
+    it('locates the failing step by name and index', () => {
+      const load = safePipe(step('parse', parse), step('validate', validate), (data) => data.id);
+
+      expect(load('{"id":1}').unwrap()).toBe(1);
+      const error = load('{"id":-1}').match({ ok: () => undefined, err: (e) => e });
+      expect(error).toBeInstanceOf(PipeError);
+      expect(error).toMatchObject({ steps: [{ name: 'validate', index: 1 }], trail: ['validate'] });
+      expect((error as PipeError).cause).toEqual(new RangeError('Negative id'));
+      expect(error?.message).toBe('validate: Negative id');
+      expectTypeOf(load).returns.toEqualTypeOf<Safe<number, Error | PipeError<Error>>>();
+    });
+
+    it('leaves errors of unnamed steps as they are', () => {
+      const error = new Error('boom');
+      const piped = safePipe(step('parse', parse), (): number => {
+        throw error;
+      });
+
+      expect(() => piped('{"id":1}').unwrap()).toThrow(error);
+    });
+
+    it('locates failures of async steps', async () => {
+      const piped = safePipe(
+        step('load', async (id: number) => ({ id })),
+        step('check', async (user: { id: number }) => validate(user))
+      );
+
+      await expect(piped(-1).unwrap()).rejects.toMatchObject({ steps: [{ name: 'check', index: 1 }] });
+    });
+
+    it('adds the steps of nested pipes, outermost first', () => {
+      const inner = safePipe(step('parse', parse), step('validate', validate));
+      const outer = safePipe(
+        (text: string) => text.trim(),
+        step('load', inner),
+        (data) => data.id
+      );
+
+      const error = outer(' {"id":-1} ').match({ ok: () => undefined, err: (e) => e }) as PipeError;
+      expect(error.steps).toEqual([
+        { name: 'load', index: 1 },
+        { name: 'validate', index: 1 },
+      ]);
+      expect(error.cause).toBeInstanceOf(RangeError);
+      expect(formatErrorTrail(error)).toBe('load\n  caused by: validate\n  caused by: RangeError: Negative id');
+    });
+
+    it('returns a Safe when a named step is called on its own', () => {
+      const chain = step('parse', parse)('{');
+
+      expect(chain.isOk).toBe(false);
+      expect(() => chain.unwrap()).toThrow(PipeError);
+      expectTypeOf(chain).toEqualTypeOf<Safe<{ id: number }, PipeError<Error>>>();
+    });
+
+    it('names the steps of an object by their keys', () => {
+      const load = safePipe<string, number>({ parse, validate, id: (data: { id: number }) => data.id });
+
+      expect(load('{"id":2}').unwrap()).toBe(2);
+      expect(() => load('{').unwrap()).toThrow(expect.objectContaining({ steps: [{ name: 'parse', index: 0 }] }));
+      expectTypeOf(load).returns.toEqualTypeOf<Safe<number, PipeError>>();
+    });
+
+    it('reports intermediate values by step name in debug mode', () => {
+      safe.configure({ debug: true });
+      try {
+        const { steps } = safePipe({ parse, validate, id: (data: { id: number }) => data.id })('{"id":3}').inspect();
+
+        expect(steps.map((record) => [record.label, record.value])).toEqual([
+          [undefined, '{"id":3}'],
+          ['parse', { id: 3 }],
+          ['validate', { id: 3 }],
+          ['id', 3],
+        ]);
+      } finally {
+        safe.configure({ debug: undefined });
+      }
+    });
+  });
 });
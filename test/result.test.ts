@@ -1,5 +1,7 @@
 import { describe, it, expect } from 'vitest';
+import { ContextError, SafeAggregateError, TimeoutError } from '../src/errors';
 import { safeResult, SafeResult } from '../src/result';
+import { safe } from '../src';
 
 describe('safeResult', () => {
   describe('ok', () => {
@@ -159,6 +161,139 @@ describe('safeResult', () => {
     });
   });
 
+  describe('serialize / deserialize', () => {
+    class DbError extends Error {
+      name = 'DbError';
+      constructor(
+        message: string,
+        readonly code: string
+      ) {
+        super(message);
+      }
+    }
+
+    const roundTrip = <T>(result: SafeResult<T, any>, registry?: Parameters<typeof safeResult.deserialize>[1]) =>
+      safeResult.deserialize<T>(JSON.parse(JSON.stringify(safeResult.serialize(result))), registry);
+
+    it('encodes ok results as is', () => {
+      expect(safeResult.serialize(safeResult.ok({ a: 1 }))).toEqual({ isOk: true, value: { a: 1 } });
+      expect(roundTrip(safeResult.ok([1, 2]))).toEqual({ isOk: true, error: undefined, value: [1, 2] });
+    });
+
+    it('encodes name, message, stack and custom fields', () => {
+      const error = new DbError('connection lost', 'ECONN');
+      const serialized = safeResult.serialize(safeResult.fail(error));
+      expect(serialized).toEqual({
+        isOk: false,
+        error: { name: 'DbError', message: 'connection lost', stack: error.stack, code: 'ECONN' },
+      });
+    });
+
+    it('omits stacks when asked', () => {
+      const serialized = safeResult.serialize(safeResult.fail(new Error('x')), { stack: false });
+      expect(serialized).toEqual({ isOk: false, error: { name: 'Error', message: 'x' } });
+    });
+
+    it('rehydrates built-in errors as real instances', () => {
+      const error = new TypeError('bad type');
+      const result = roundTrip(safeResult.fail(error));
+      expect(result.isOk).toBe(false);
+      expect(result.error).toBeInstanceOf(TypeError);
+      expect(result.error?.message).toBe('bad type');
+      expect(result.error?.stack).toBe(error.stack);
+    });
+
+    it('falls back to Error and keeps the name for unknown classes', () => {
+      const result = roundTrip(safeResult.fail(new DbError('lost', 'ECONN')), {});
+      expect(result.error).toBeInstanceOf(Error);
+      expect(result.error).not.toBeInstanceOf(DbError);
+      expect(result.error?.name).toBe('DbError');
+      expect((result.error as any).code).toBe('ECONN');
+    });
+
+    it('rehydrates registered classes', () => {
+      safeResult.registerError(DbError);
+      const result = roundTrip<number>(safeResult.fail(new DbError('lost', 'ECONN')));
+      expect(result.error).toBeInstanceOf(DbError);
+      expect((result.error as DbError).code).toBe('ECONN');
+      expect(result.error?.message).toBe('lost');
+    });
+
+    it('accepts a custom registry', () => {
+      const result = roundTrip(safeResult.fail(new DbError('lost', 'ECONN')), { DbError });
+      expect(result.error).toBeInstanceOf(DbError);
+    });
+
+    it('keeps the cause chain', () => {
+      const root = new SyntaxError('Unexpected token');
+      const error = ContextError.wrap('loading profile', ContextError.wrap('parsing', root));
+      const result = roundTrip(safeResult.fail(error));
+      const decoded = result.error as ContextError;
+
+      expect(decoded).toBeInstanceOf(ContextError);
+      expect(decoded.trail).toEqual(['loading profile', 'parsing']);
+      expect(decoded.message).toBe('loading profile: parsing: Unexpected token');
+      expect(decoded.cause).toBeInstanceOf(SyntaxError);
+      expect(decoded.cause.message).toBe('Unexpected token');
+    });
+
+    it('encodes errors nested in fields', () => {
+      const error = new SafeAggregateError([new TimeoutError(10), new Error('b')]);
+      const decoded = roundTrip(safeResult.fail(error)).error as SafeAggregateError;
+      expect(decoded).toBeInstanceOf(SafeAggregateError);
+      expect(decoded.errors[0]).toBeInstanceOf(TimeoutError);
+      expect((decoded.errors[0] as TimeoutError).ms).toBe(10);
+      expect(decoded.errors[1].message).toBe('b');
+    });
+
+    it('marks nested errors and leaves other objects plain', () => {
+      const error = Object.assign(new Error('failed'), {
+        cause: new TypeError('inner'),
+        user: { name: 'bob', message: 'hi' },
+      });
+      const serialized = safeResult.serialize(safeResult.fail(error), { stack: false });
+      expect(serialized).toMatchObject({ error: { cause: { name: 'TypeError', message: 'inner', __error: true } } });
+
+      const decoded = roundTrip(safeResult.fail(error)).error as Error & { cause: unknown; user: unknown };
+      expect(decoded.cause).toBeInstanceOf(TypeError);
+      expect(decoded.user).not.toBeInstanceOf(Error);
+      expect(decoded.user).toEqual({ name: 'bob', message: 'hi' });
+    });
+
+    it('leaves out causes and fields that loop back', () => {
+      const a = new Error('a');
+      const b = Object.assign(new Error('b'), { cause: a, origin: a });
+      Object.assign(a, { cause: b });
+      const self = new Error('self');
+      Object.assign(self, { cause: self });
+
+      expect(safeResult.serialize(safeResult.fail(self), { stack: false })).toEqual({
+        isOk: false,
+        error: { name: 'Error', message: 'self' },
+      });
+      const decoded = roundTrip(safeResult.fail(a)).error as Error & { cause: Error & { cause?: unknown } };
+      expect(decoded.cause.message).toBe('b');
+      expect(decoded.cause.cause).toBeUndefined();
+      expect(JSON.parse(JSON.stringify(safe.fromResult(safeResult.fail(a))))).toMatchObject({
+        error: { message: 'a' },
+      });
+    });
+
+    it('keeps a __proto__ field as a plain field', () => {
+      const text = '{"isOk":false,"error":{"name":"Error","message":"x","__proto__":{"isAdmin":true}}}';
+      const error = safeResult.deserialize(text).error as Error & { isAdmin?: boolean };
+
+      expect(error).toBeInstanceOf(Error);
+      expect(error.isAdmin).toBeUndefined();
+      expect(Object.getOwnPropertyDescriptor(error, '__proto__')?.value).toEqual({ isAdmin: true });
+    });
+
+    it('accepts JSON text', () => {
+      const text = JSON.stringify(safeResult.serialize(safeResult.fail(new RangeError('out'))));
+      expect(safeResult.deserialize(text).error).toBeInstanceOf(RangeError);
+    });
+  });
+
   // Additional integrated tests
   describe('integration', () => {
     it('should handle realistic usage scenarios', async () => {
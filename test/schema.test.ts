@@ -0,0 +1,120 @@
+import { describe, expect, expectTypeOf, it } from 'vitest';
+import { safe, ValidationError, type Safe, type StandardSchemaIssue, type StandardSchemaV1 } from '../src';
+
+// ─── A tiny Standard Schema implementation ─────────────────────────
+
+type Path = (PropertyKey | { key: PropertyKey })[];
+
+type Check<T> = (value: unknown, path: Path) => { value: T } | { issues: StandardSchemaIssue[] };
+
+const schema = <T>(check: Check<T>, vendor = 'tiny'): StandardSchemaV1<unknown, T> & { check: Check<T> } => ({
+  check,
+  '~standard': { version: 1, vendor, validate: (value) => check(value, []) },
+});
+
+const string = () =>
+  schema<string>((value, path) =>
+    typeof value === 'string' ? { value } : { issues: [{ message: 'Expected a string', path }] }
+  );
+
+const number = () =>
+  schema<number>((value, path) =>
+    typeof value === 'number' ? { value } : { issues: [{ message: 'Expected a number', path }] }
+  );
+
+const object = <S extends Record<string, { check: Check<any> }>>(shape: S) =>
+  schema<{ [K in keyof S]: S[K] extends { check: Check<infer T> } ? T : never }>((value, path) => {
+    if (typeof value !== 'object' || value === null) return { issues: [{ message: 'Expected an object', path }] };
+    const issues: StandardSchemaIssue[] = [];
+    const output: Record<string, unknown> = {};
+    for (const [key, field] of Object.entries(shape)) {
+      const result = field.check((value as Record<string, unknown>)[key], [...path, { key }]);
+      if ('issues' in result) issues.push(...result.issues);
+      else output[key] = result.value;
+    }
+    return issues.length ? { issues } : { value: output as any };
+  });
+
+/** Resolves asynchronously, like a schema with an async refinement. */
+const async = <T>(inner: StandardSchemaV1<unknown, T>): StandardSchemaV1<unknown, T> => ({
+  '~standard': { ...inner['~standard'], validate: async (value) => inner['~standard'].validate(value) },
+});
+
+const User = object({ name: string(), age: number() });
+type User = { name: string; age: number };
+
+// ───────────────────────────────────────────────────────────────────
+
+describe('Standard Schema', () => {
+  describe('.parse', () => {
+    it('narrows the chain to the schema output', () => {
+      const result = safe<unknown>({ name: 'Ann', age: 30 }).parse(User);
+      expectTypeOf(result).toEqualTypeOf<Safe<User, Error | ValidationError>>();
+      expect(result.map((user) => user.name).unwrap()).toBe('Ann');
+    });
+
+    it('fails with the schema issues and their paths', () => {
+      const error = safe<unknown>({ name: 1 })
+        .parse(User)
+        .match({ ok: () => undefined, err: (e) => e });
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect((error as ValidationError).issues).toEqual([
+        { message: 'Expected a string', path: ['name'] },
+        { message: 'Expected a number', path: ['age'] },
+      ]);
+      expect(error?.message).toBe('Validation failed: name: Expected a string; age: Expected a number');
+    });
+
+    it('skips on error state', () => {
+      const result = safe<unknown>(() => {
+        throw new Error('upstream');
+      }).parse(User);
+      expect(() => result.unwrap()).toThrow('upstream');
+    });
+
+    it('awaits async schemas in async chains', async () => {
+      const result = safe(Promise.resolve<unknown>({ name: 'Bo', age: 5 })).parse(async(User));
+      expectTypeOf(result).toEqualTypeOf<Safe<Promise<User>, Error | ValidationError>>();
+      expect(await result.unwrap()).toEqual({ name: 'Bo', age: 5 });
+    });
+
+    it('rejects async schemas in sync chains', () => {
+      const result = safe<unknown>({ name: 'Bo', age: 5 }).parse(async(User));
+      expect(result.isOk).toBe(false);
+      expect(() => result.unwrap()).toThrow('use parseAsync');
+    });
+  });
+
+  describe('.parseAsync', () => {
+    it('accepts async schemas and makes the chain async', async () => {
+      const result = safe<unknown>({ name: 'Bo', age: 5 }).parseAsync(async(User));
+      expectTypeOf(result).toEqualTypeOf<Safe<Promise<User>, Error | ValidationError>>();
+      expect(await result.unwrap()).toEqual({ name: 'Bo', age: 5 });
+    });
+
+    it('fails with the issues of async schemas', async () => {
+      const result = safe<unknown>({}).parseAsync(async(User));
+      await expect(result.unwrap()).rejects.toBeInstanceOf(ValidationError);
+    });
+  });
+
+  describe('safe.parse', () => {
+    it('parses an input into a typed Safe', () => {
+      const result = safe.parse(User, { name: 'Cy', age: 1 });
+      expectTypeOf(result).toEqualTypeOf<Safe<User, ValidationError>>();
+      expect(result.unwrap()).toEqual({ name: 'Cy', age: 1 });
+    });
+
+    it('fails with a ValidationError', () => {
+      const issues = safe.parse(string(), 42).match({ ok: () => [], err: (e) => e.issues });
+      expect(issues).toEqual([{ message: 'Expected a string', path: [] }]);
+    });
+
+    it('safe.parseAsync handles async schemas', async () => {
+      const result = safe.parseAsync(async(number()), 'x');
+      expectTypeOf(result).toEqualTypeOf<Safe<Promise<number>, ValidationError>>();
+      await expect(result.unwrap()).rejects.toThrow('Expected a number');
+    });
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, expect, expectTypeOf, it, vi } from 'vitest';
+import { AbortError, safe, SafeAggregateError, TimeoutError, type Safe, type SafeResult } from '../src';
+
+async function* lines(...items: string[]) {
+  for (const item of items) {
+    await Promise.resolve();
+    yield item;
+  }
+}
+
+const parse = (line: string) => {
+  const n = Number(line);
+  if (Number.isNaN(n)) throw new Error(`bad line: ${line}`);
+  return n;
+};
+
+describe('safe.stream', () => {
+  it('maps and filters items lazily', async () => {
+    const map = vi.fn(parse);
+    const stream = safe
+      .stream(lines('1', '2', '3', '4'))
+      .map(map)
+      .filter((n) => n % 2 === 0);
+    expect(map).not.toHaveBeenCalled();
+
+    const result = stream.toArray();
+    expectTypeOf(result).toEqualTypeOf<Safe<Promise<number[]>, Error>>();
+    expect(await result.unwrap()).toEqual([2, 4]);
+    expect(map).toHaveBeenCalledTimes(4);
+  });
+
+  it('accepts plain iterables and awaits async steps', async () => {
+    const result = await safe
+      .stream([1, 2, 3])
+      .map(async (n) => n * 10)
+      .toArray()
+      .unwrap();
+    expect(result).toEqual([10, 20, 30]);
+  });
+
+  it('passes the item index', async () => {
+    expect(
+      await safe
+        .stream(['a', 'b'])
+        .map((value, index) => `${index}:${value}`)
+        .toArray()
+        .unwrap()
+    ).toEqual(['0:a', '1:b']);
+  });
+
+  it('narrows with a type guard filter', async () => {
+    const stream = safe.stream([1, 'a', 2]).filter((x): x is number => typeof x === 'number');
+    expectTypeOf(stream.toArray()).toEqualTypeOf<Safe<Promise<number[]>, Error>>();
+    expect(await stream.toArray().unwrap()).toEqual([1, 2]);
+  });
+
+  describe('error policies', () => {
+    it('stop fails with the first error and stops reading', async () => {
+      const read = vi.fn();
+      async function* source() {
+        for (const item of ['1', 'x', '3']) {
+          read(item);
+          yield item;
+        }
+      }
+      const result = safe.stream(source()).map(parse).toArray();
+      await expect(result.unwrap()).rejects.toThrow('bad line: x');
+      expect(read).toHaveBeenCalledTimes(2);
+    });
+
+    it('skip drops failed items', async () => {
+      const result = safe
+        .stream(lines('1', 'x', '3'), { onError: 'skip' })
+        .map(parse)
+        .toArray();
+      expectTypeOf(result).toEqualTypeOf<Safe<Promise<number[]>, Error>>();
+      expect(await result.unwrap()).toEqual([1, 3]);
+    });
+
+    it('collect reads everything and aggregates the errors', async () => {
+      const result = safe
+        .stream(lines('x', '2', 'y'), { onError: 'collect' })
+        .map(parse)
+        .toArray();
+      const error = await result.match({ ok: () => undefined, err: (e) => e });
+      expect(error).toBeInstanceOf(SafeAggregateError);
+      expect((error as SafeAggregateError).errors.map((e) => e.message)).toEqual(['bad line: x', 'bad line: y']);
+    });
+
+    it('a failing source fails the Safe regardless of the policy', async () => {
+      async function* broken() {
+        yield '1';
+        throw new Error('disk error');
+      }
+      const result = safe.stream(broken(), { onError: 'skip' }).map(parse).toArray();
+      await expect(result.unwrap()).rejects.toThrow('disk error');
+    });
+  });
+
+  it('recovers failed items individually', async () => {
+    const result = await safe
+      .stream(lines('1', 'x', '3'))
+      .map(parse)
+      .recover(() => 0)
+      .toArray()
+      .unwrap();
+    expect(result).toEqual([1, 0, 3]);
+  });
+
+  it('observes failed items without affecting the stream', async () => {
+    const seen: [string, number][] = [];
+    const result = await safe
+      .stream(lines('1', 'x'), { onError: 'skip' })
+      .map(parse)
+      .observeError((e, index) => {
+        seen.push([e.message, index]);
+        throw new Error('ignored');
+      })
+      .toArray()
+      .unwrap();
+    expect(result).toEqual([1]);
+    expect(seen).toEqual([['bad line: x', 1]]);
+  });
+
+  it('iterates item results', async () => {
+    const results: SafeResult<number, Error>[] = [];
+    for await (const item of safe.stream(lines('1', 'x')).map(parse)) results.push(item);
+    expect(results[0]).toEqual({ isOk: true, value: 1, error: undefined });
+    expect(results[1].isOk).toBe(false);
+  });
+
+  it('stops reading once the signal aborts', async () => {
+    const controller = new AbortController();
+    const result = safe
+      .stream(lines('1', '2', '3'), { signal: controller.signal })
+      .map((line) => {
+        if (line === '2') controller.abort();
+        return line;
+      })
+      .toArray();
+    await expect(result.unwrap()).rejects.toBeInstanceOf(AbortError);
+  });
+
+  it('fails with the reason of a deadline signal, like chains', async () => {
+    const controller = new AbortController();
+    const result = safe
+      .stream(lines('1', '2'), { signal: controller.signal })
+      .map((line) => {
+        controller.abort(new TimeoutError(10));
+        return line;
+      })
+      .toArray();
+    await expect(result.unwrap()).rejects.toBeInstanceOf(TimeoutError);
+  });
+});
@@ -0,0 +1,142 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { retry, safe, AbortError, RetryError, TimeoutError } from '../src';
+import { createTestClock } from '../src/testing';
+
+describe('testing', () => {
+  describe('createTestClock', () => {
+    it('runs timers in order as time advances', async () => {
+      const clock = createTestClock(100);
+      const ran: string[] = [];
+      clock.setTimeout(() => ran.push('b'), 20);
+      clock.setTimeout(() => ran.push('a'), 10);
+      clock.setTimeout(() => ran.push('c'), 20);
+
+      await clock.advance(15);
+      expect(ran).toEqual(['a']);
+      expect(clock.now()).toBe(115);
+      expect(clock.pending).toBe(2);
+
+      await clock.advance(5);
+      expect(ran).toEqual(['a', 'b', 'c']);
+      expect(clock.delays).toEqual([20, 10, 20]);
+    });
+
+    it('does not run cancelled timers', async () => {
+      const clock = createTestClock();
+      const fn = vi.fn();
+      const cancel = clock.setTimeout(fn, 10);
+      cancel();
+
+      await clock.runAll();
+      expect(fn).not.toHaveBeenCalled();
+      expect(clock.pending).toBe(0);
+    });
+
+    it('runs timers scheduled by async code while advancing', async () => {
+      const clock = createTestClock();
+      const times: number[] = [];
+      const tick = async () => {
+        await Promise.resolve();
+        times.push(clock.now());
+        if (times.length < 3) clock.setTimeout(tick, 10);
+      };
+      clock.setTimeout(tick, 10);
+
+      await clock.advance(25);
+      expect(times).toEqual([10, 20]);
+      await clock.runAll();
+      expect(times).toEqual([10, 20, 30]);
+    });
+  });
+
+  describe('retry with a test clock', () => {
+    const failingTimes = (count: number) => {
+      let calls = 0;
+      return vi.fn(async () => {
+        if (++calls <= count) throw new Error(`Fail ${calls}`);
+        return 'ok';
+      });
+    };
+
+    afterEach(() => safe.configure({ clock: undefined }));
+
+    it('waits the delays on the clock instead of real time', async () => {
+      const clock = createTestClock();
+      const fn = failingTimes(2);
+      const pending = retry(fn, { delay: 60_000, backoff: true, clock })('x');
+
+      await clock.advance(60_000);
+      expect(fn).toHaveBeenCalledTimes(2);
+      await clock.advance(120_000);
+
+      await expect(pending).resolves.toBe('ok');
+      expect(clock.delays).toEqual([60_000, 120_000]);
+    });
+
+    it('uses the configured clock', async () => {
+      const clock = createTestClock();
+      safe.configure({ clock });
+      const result = safe('x')
+        .map(retry(failingTimes(5), { maxTries: 3 }))
+        .unwrap();
+
+      await Promise.all([expect(result).rejects.toBeInstanceOf(RetryError), clock.runAll()]);
+      expect(clock.delays).toEqual([1000, 1000]);
+    });
+
+    it('cancels the pending delay when the signal aborts', async () => {
+      const clock = createTestClock();
+      const controller = new AbortController();
+      const pending = retry(failingTimes(5), { delay: 1000, signal: controller.signal, clock })('x');
+
+      await clock.advance(500);
+      controller.abort();
+
+      await expect(pending).rejects.toBeInstanceOf(AbortError);
+      expect(clock.pending).toBe(0);
+    });
+  });
+
+  describe('chain steps with a test clock', () => {
+    const never = () => new Promise<number>(() => {});
+
+    afterEach(() => safe.configure({ clock: undefined }));
+
+    it('waits the delays of the retry step on the configured clock', async () => {
+      const clock = createTestClock();
+      safe.configure({ clock });
+      let calls = 0;
+      const result = safe(() => {
+        if (++calls < 3) throw new Error('flaky');
+        return calls;
+      })
+        .retry({ maxTries: 3, delay: 300, backoff: true })
+        .unwrap();
+
+      await clock.runAll();
+      expect(await result).toBe(3);
+      expect(clock.delays).toEqual([300, 600]);
+    });
+
+    it('times out on the configured clock', async () => {
+      const clock = createTestClock();
+      safe.configure({ clock });
+      const chain = safe(never).timeout(200);
+
+      await clock.advance(199);
+      expect(clock.pending).toBe(1);
+      await clock.advance(1);
+      expect(await chain.match({ ok: () => undefined, err: (e) => e })).toBeInstanceOf(TimeoutError);
+    });
+
+    it('runs deadlines on the configured clock', async () => {
+      const clock = createTestClock();
+      safe.configure({ clock });
+      const chain = safe.deadline(2000, () => safe(never));
+
+      await clock.advance(2000);
+      expect(await chain.match({ ok: () => undefined, err: (e) => e })).toBeInstanceOf(TimeoutError);
+      expect(clock.delays).toEqual([2000]);
+    });
+  });
+});
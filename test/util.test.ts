@@ -1,5 +1,19 @@
-import { describe, it, expect, vi } from 'vitest';
-import { retry, safe, errorIfNull, errorIfFalsy, errorIfEmpty, errorIf } from '../src';
+import { afterEach, describe, it, expect, expectTypeOf, vi } from 'vitest';
+import {
+  retry,
+  safe,
+  errorIfNull,
+  errorIfFalsy,
+  errorIfEmpty,
+  errorIf,
+  validateAll,
+  AbortError,
+  RetryError,
+  ValidationError,
+  type RetryJitter,
+  type Safe,
+} from '../src';
+import { createTestClock } from '../src/testing';
 
 describe('util', () => {
   describe('retry', () => {
@@ -46,6 +60,85 @@ describe('util', () => {
         await expect(chain.unwrap()).rejects.toThrow('Fail 3');
       });
     });
+
+    describe('policies', () => {
+      afterEach(() => vi.restoreAllMocks());
+
+      const delaysOf = async (jitter: RetryJitter) => {
+        vi.spyOn(Math, 'random').mockReturnValue(0.5);
+        const onRetry = vi.fn();
+        await retry(createFailingFn(3), { maxTries: 4, delay: 4, backoff: true, maxDelay: 10, jitter, onRetry })('x');
+        return onRetry.mock.calls.map(([, , delay]) => delay);
+      };
+
+      it('caps backoff delays with maxDelay', async () => {
+        expect(await delaysOf('none')).toEqual([4, 8, 10]);
+      });
+
+      it('applies full, equal and decorrelated jitter', async () => {
+        expect(await delaysOf('full')).toEqual([2, 4, 5]);
+        expect(await delaysOf('equal')).toEqual([3, 6, 7.5]);
+        expect(await delaysOf('decorrelated')).toEqual([8, 10, 10]);
+      });
+
+      it('reports each retry with the error and attempt', async () => {
+        const onRetry = vi.fn();
+        await retry(createFailingFn(2), { delay: 1, onRetry })('x');
+
+        expect(onRetry.mock.calls).toEqual([
+          [new Error('Fail 1'), 1, 1],
+          [new Error('Fail 2'), 2, 1],
+        ]);
+      });
+
+      it('gives up with every attempt error', async () => {
+        const error = await retry(createFailingFn(5), { maxTries: 3, delay: 1 })('x').catch((e) => e);
+
+        expect(error).toBeInstanceOf(RetryError);
+        expect(error.errors.map((e: Error) => e.message)).toEqual(['Fail 1', 'Fail 2', 'Fail 3']);
+        expect(error.cause).toEqual(new Error('Fail 3'));
+        expect(error.message).toBe('Failed after 3 attempt(s): Fail 3');
+      });
+
+      it('does not retry errors rejected by retryIf', async () => {
+        const fn = vi.fn(async () => {
+          throw new ValidationError([{ message: 'Invalid', path: [] }]);
+        });
+        const error = await retry(fn, { delay: 1, retryIf: (e) => !(e instanceof ValidationError) })('x').catch(
+          (e) => e
+        );
+
+        expect(fn).toHaveBeenCalledTimes(1);
+        expect(error.errors).toEqual([expect.any(ValidationError)]);
+      });
+
+      it('fails right away when the signal aborts during an attempt', async () => {
+        const controller = new AbortController();
+        const fn = vi.fn(async () => {
+          controller.abort();
+          throw new Error('fail');
+        });
+        const clock = createTestClock();
+
+        await expect(retry(fn, { delay: 500, signal: controller.signal, clock })('x')).rejects.toBeInstanceOf(
+          AbortError
+        );
+        expect(clock.pending).toBe(0);
+        expect(fn).toHaveBeenCalledTimes(1);
+      });
+
+      it('stops retrying once the signal aborts', async () => {
+        const controller = new AbortController();
+        const fn = createFailingFn(5);
+        const pending = retry(fn, { delay: 50, signal: controller.signal })('x');
+        setTimeout(() => controller.abort(), 10);
+
+        await expect(pending).rejects.toBeInstanceOf(AbortError);
+        expect(fn).toHaveBeenCalledTimes(1);
+        await expect(retry(fn, { signal: controller.signal })('x')).rejects.toBeInstanceOf(AbortError);
+        expect(fn).toHaveBeenCalledTimes(1);
+      });
+    });
   });
 
   describe('valid', () => {
@@ -87,5 +180,90 @@ describe('util', () => {
       expect(safe({ name: 'test' }).map(validationFn).unwrap()).toEqual({ name: 'test' });
       expect(() => safe(null).map(validationFn).unwrap()).toThrow();
     });
+
+    it('errorIfNull should narrow out null and undefined', () => {
+      const chain = safe<string | null | undefined>('test').map(errorIfNull());
+      expectTypeOf(chain.unwrap()).toEqualTypeOf<string>();
+    });
+
+    it('errorIfFalsy should narrow out falsy literal types', () => {
+      const chain = safe<string | false | 0>('test').map(errorIfFalsy());
+      expectTypeOf(chain.unwrap()).toEqualTypeOf<string>();
+    });
+
+    it('errorIf should narrow when given a type guard', () => {
+      const notString = errorIf(
+        (value: string | number): value is string => typeof value === 'string',
+        'Expected a number'
+      );
+
+      expectTypeOf(notString).returns.toEqualTypeOf<number>();
+      expect(safe<string | number>(1).map(notString).unwrap()).toBe(1);
+      expect(() => safe<string | number>('a').map(notString).unwrap()).toThrow('Expected a number');
+    });
+
+    describe('validateAll', () => {
+      type Form = { name: string; email: string; age: number | null };
+      const checks = {
+        name: errorIfEmpty('Name is required'),
+        email: [
+          errorIfEmpty('Email is required'),
+          errorIf((email: string) => (email.includes('@') ? false : 'Invalid email')),
+        ],
+        age: errorIfNull('Age is required'),
+      };
+
+      it('returns the value when every check passes', () => {
+        const form: Form = { name: 'Ann', email: 'ann@example.com', age: 30 };
+        expect(validateAll<Form>(checks)(form)).toBe(form);
+      });
+
+      it('collects every failed check with its field path', () => {
+        const form: Form = { name: '', email: '', age: null };
+        let error: unknown;
+        try {
+          validateAll<Form>(checks)(form);
+        } catch (e) {
+          error = e;
+        }
+
+        expect(error).toBeInstanceOf(ValidationError);
+        expect((error as ValidationError).issues).toEqual([
+          { message: 'Name is required', path: ['name'] },
+          { message: 'Email is required', path: ['email'] },
+          { message: 'Invalid email', path: ['email'] },
+          { message: 'Age is required', path: ['age'] },
+        ]);
+        expect((error as ValidationError).message).toBe(
+          'Validation failed: name: Name is required; email: Email is required; email: Invalid email; age: Age is required'
+        );
+      });
+
+      it('runs a list of checks on the value itself', () => {
+        const password = validateAll([
+          errorIf((v: string) => (v.length < 8 ? 'Too short' : false)),
+          errorIf((v: string) => (/\d/.test(v) ? false : 'Needs a digit')),
+        ]);
+        expect(() => password('abc')).toThrow('Validation failed: Too short; Needs a digit');
+        expect(password('abcdefg1')).toBe('abcdefg1');
+      });
+
+      it('plugs into a chain as a step', () => {
+        const result = safe<Form>({ name: '', email: 'a@b.c', age: 1 }).map(validateAll(checks));
+        expectTypeOf(result).toEqualTypeOf<Safe<Form, Error>>();
+        expect(result.match({ ok: () => [], err: (e) => (e as ValidationError).issues.length })).toBe(1);
+      });
+
+      it('safe.validate fails with a typed ValidationError', () => {
+        const result = safe.validate<Form>({ name: '', email: 'x', age: null }, checks);
+        expectTypeOf(result).toEqualTypeOf<Safe<Form, ValidationError>>();
+        expect(result.match({ ok: () => [], err: (e) => e.issues.map((issue) => issue.message) })).toEqual([
+          'Name is required',
+          'Invalid email',
+          'Age is required',
+        ]);
+        expect(safe.validate('ok', [errorIfEmpty()]).unwrap()).toBe('ok');
+      });
+    });
   });
 });